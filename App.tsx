@@ -1,81 +1,611 @@
-import React, { useState } from 'react';
-import { FileAudio, Mic, Download, Info } from 'lucide-react';
-import { AppMode, TranscriptSegment, ProcessingState } from './types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FileAudio, Mic, Info, Undo2, Redo2, Languages, Eye, EyeOff } from 'lucide-react';
+import { AgendaItem, AppMode, ChatMessage, MeetingPlan, ProcessingState, TranscriptionProvider, TranscriptSegment } from './types';
 import { FileUploader } from './components/FileUploader';
 import { TranscriptDisplay } from './components/TranscriptDisplay';
 import { LiveSession } from './components/LiveSession';
-import { transcribeAudioFile } from './services/geminiService';
+import { ExportMenu } from './components/ExportMenu';
+import { EXPORT_FORMATS, ExportDocument, ExportFormat, downloadBlob, exportTranscript, exportTranscriptsZip, safeFileName, serializeAnalyticsCsv, serializeRedactionMapCsv } from './services/exportService';
+import { parseTranscriptFile } from './services/importService';
+import { useTranscriptHistory } from './hooks/useTranscriptHistory';
+import { useMeetingLibrary } from './hooks/useMeetingLibrary';
+import { MeetingLibrary } from './components/MeetingLibrary';
+import { AudioPlayer, AudioPlayerHandle } from './components/AudioPlayer';
+import { MinutesPanel } from './components/MinutesPanel';
+import { MeetingChat } from './components/MeetingChat';
+import { formatTimestamp, shiftSegments, withSegmentStarts, withSegmentTimes } from './services/timeUtils';
+import { AudioGap } from './services/liveSessionManager';
+import { LiveTranscriptUpdate } from './services/liveSegmenter';
+import { LiveRecordingPrompt } from './components/LiveRecordingPrompt';
+import { arrayBufferToBase64 } from './services/audioUtils';
+import { reconcileSpeakers } from './services/transcriptReconciliation';
+import { useTranscriptionSettings } from './hooks/useTranscriptionSettings';
+import { LanguageSettings } from './components/LanguageSettings';
+import { BatchQueue } from './components/BatchQueue';
+import { useBatchTranscription } from './hooks/useBatchTranscription';
+import { usePreprocessSettings } from './hooks/usePreprocessSettings';
+import { PreprocessSettings } from './components/PreprocessSettings';
+import { PreprocessedAudio } from './services/audioPreprocessing';
+import { SpeakerAnalytics } from './components/SpeakerAnalytics';
+import { computeSpeakerAnalytics } from './services/speakerAnalytics';
+import { useVocabulary } from './hooks/useVocabulary';
+import { VocabularyPanel } from './components/VocabularyPanel';
+import { useSpeakerRoster } from './hooks/useSpeakerRoster';
+import { RosterPanel } from './components/RosterPanel';
+import { RedactionPanel } from './components/RedactionPanel';
+import { EMPTY_REDACTION, RedactionState, redactMinutes, redactTranscript } from './services/redaction';
+import { CorrectionChange, applyCorrections } from './services/vocabulary';
+import { MeetingSetup } from './components/MeetingSetup';
+import { AgendaPanel } from './components/AgendaPanel';
+import { EMPTY_PLAN, buildTranscriptSections, cleanPlan, isCoverageStale } from './services/agenda';
+import { Meeting, getMeeting } from './services/meetingStore';
+import { anchorCitations, anchorMinutes } from './services/segmentRefs';
+import { AUTO_LANGUAGE } from './services/languages';
+import { classifyError, transcriptionErrorMessage } from './services/transcriptionErrors';
 
-const App: React.FC = () => {
+interface Props {
+  provider: TranscriptionProvider;
+}
+
+const App: React.FC<Props> = ({ provider }) => {
   const [mode, setMode] = useState<AppMode>(AppMode.UPLOAD);
-  const [transcripts, setTranscripts] = useState<TranscriptSegment[]>([]);
+  const {
+    segments: transcripts,
+    edit: editTranscript,
+    reset: setTranscripts,
+    replace: updateTranscripts,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useTranscriptHistory();
+  // Latest transcript, for handlers that run after the session that produced it
+  const transcriptsRef = useRef(transcripts);
+  transcriptsRef.current = transcripts;
   const [processing, setProcessing] = useState<ProcessingState>({ isProcessing: false });
 
+  const { settings, update: updateSettings } = useTranscriptionSettings();
+  const { settings: preprocessSettings, update: updatePreprocessSettings } = usePreprocessSettings();
+  const { settings: vocabulary, update: updateVocabulary } = useVocabulary();
+  const roster = useSpeakerRoster();
+  // What providers receive: the language settings, the glossary for the prompts and the enrolled voices
+  const transcriptionOptions = useMemo(
+    () => ({ ...settings, glossary: vocabulary.glossary, roster: roster.voiceSamples }),
+    [settings, vocabulary.glossary, roster.voiceSamples]
+  );
+  // Segments the automatic correction pass changed in the transcript on screen
+  const [autoCorrections, setAutoCorrections] = useState<CorrectionChange[]>([]);
+  const correct = (segments: TranscriptSegment[]) => applyCorrections(segments, vocabulary.glossary, vocabulary.rules);
+
+  const library = useMeetingLibrary();
+  const { currentMeeting } = library;
+  const batch = useBatchTranscription({
+    provider,
+    settings: transcriptionOptions,
+    preprocess: preprocessSettings,
+    correct: segments => correct(segments).segments,
+    saveMeeting: library.addMeeting,
+  });
+  const currentMeetingIdRef = useRef<string | undefined>();
+  currentMeetingIdRef.current = currentMeeting?.id;
+  // Bumped to reset the uploader when the workspace switches to another meeting
+  const [workspaceKey, setWorkspaceKey] = useState(0);
+  // Meeting of the last live session, whose recording arrives after the session stops
+  const liveMeetingIdRef = useRef<string>();
+  // Meeting whose live recording is waiting for the user to decide on a re-transcription
+  const [recordingReviewId, setRecordingReviewId] = useState<string>();
+  // Title, attendees and agenda for the next meeting; used once, by whichever starts first
+  const [meetingPlan, setMeetingPlan] = useState<MeetingPlan>(EMPTY_PLAN);
+
+  const takePlan = (defaultTitle: string) => {
+    const { title, attendees, agenda } = cleanPlan(meetingPlan);
+    setMeetingPlan(EMPTY_PLAN);
+    return { title: title || defaultTitle, attendees, agenda };
+  };
+
+  // Persist edits to the open meeting
+  useEffect(() => {
+    if (currentMeeting && transcripts !== currentMeeting.segments) {
+      library.updateCurrent({ segments: transcripts });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [transcripts]);
+
+  const loadWorkspace = (segments: TranscriptSegment[]) => {
+    setTranscripts(segments);
+    setAutoCorrections([]);
+    setProcessing({ isProcessing: false });
+    setWorkspaceKey(k => k + 1);
+  };
+
+  const handleOpenMeeting = async (id: string) => {
+    const meeting = await library.openMeeting(id);
+    if (!meeting) return;
+    setMode(meeting.mode);
+    loadWorkspace(meeting.segments);
+  };
+
+  const handleNewMeeting = async () => {
+    await library.closeMeeting();
+    loadWorkspace([]);
+  };
+
+  const handleDeleteMeeting = async (id: string) => {
+    const wasOpen = currentMeeting?.id === id;
+    await library.remove(id);
+    if (wasOpen) loadWorkspace([]);
+  };
+
+  // Each mode works on its own meeting, so switching never mixes transcripts
+  const handleModeChange = async (newMode: AppMode) => {
+    if (newMode === mode) return;
+    setMode(newMode);
+    if (currentMeeting?.mode !== newMode) await handleNewMeeting();
+  };
+
+  // Aborts the file transcription in progress
+  const fileAbortRef = useRef<AbortController>();
+
   // Handle File Transcription
-  const handleFileProcess = async (base64: string, mimeType: string) => {
+  const handleFileProcess = async (
+    base64: string,
+    mimeType: string,
+    fileName: string,
+    file: File,
+    prepared?: PreprocessedAudio
+  ) => {
+    // Times must match the original file, which is what gets stored and played back
+    const offset = prepared?.offset ?? 0;
+    const controller = new AbortController();
+    fileAbortRef.current = controller;
     setProcessing({ isProcessing: true, progress: 'Analizando audio...' });
     setTranscripts([]);
+    setAutoCorrections([]);
+    const meeting = await library.startMeeting({
+      ...takePlan(fileName.replace(/\.[^.]+$/, '')),
+      mode: AppMode.UPLOAD,
+      audio: file,
+      audioFileName: fileName,
+    });
     
     try {
-      const segments = await transcribeAudioFile(base64, mimeType);
-      setTranscripts(segments);
+      const transcribed = shiftSegments(withSegmentStarts(await provider.transcribeFile(
+        base64,
+        mimeType,
+        (progress) => setProcessing({ isProcessing: true, progress }),
+        {
+          ...transcriptionOptions,
+          signal: controller.signal,
+          // Show segments as they arrive; the final transcript replaces them
+          onPartial: partial => {
+            if (currentMeetingIdRef.current !== meeting.id) return;
+            setTranscripts(correct(shiftSegments(withSegmentStarts(partial), offset)).segments);
+          },
+        }
+      )), offset);
+      // The original keeps what the model produced; the corrected text is the working copy
+      const { segments, changes } = correct(transcribed);
+      await library.patchMeeting(meeting.id, { originalSegments: transcribed, segments });
+      if (currentMeetingIdRef.current === meeting.id) {
+        setTranscripts(segments);
+        setAutoCorrections(changes);
+      }
       setProcessing({ isProcessing: false });
+      if (meeting.agenda?.length) mapAgenda(meeting.id, segments, meeting.agenda);
     } catch (error) {
-      setProcessing({ isProcessing: false, error: 'Ocurrió un error al procesar el archivo. Revisa tu API Key.' });
+      const classified = classifyError(error);
+      // A cancelled or failed upload leaves nothing behind in the library
+      const wasOpen = currentMeetingIdRef.current === meeting.id;
+      await library.remove(meeting.id);
+      if (wasOpen) loadWorkspace([]);
+      setProcessing(classified.kind === 'cancelled'
+        ? { isProcessing: false }
+        : { isProcessing: false, error: classified.message });
+    } finally {
+      if (fileAbortRef.current === controller) fileAbortRef.current = undefined;
     }
   };
 
-  // Handle Live Transcription Update
-  const handleLiveUpdate = (text: string) => {
-    // Live API returns raw text streams. For the UI consistency, we create a pseudo-segment.
-    // Real "Speaker Diarization" in live mode is complex without processing completed chunks.
-    // We update the last segment if it exists and is recent, or create a new one.
-    
-    setTranscripts(prev => {
-        const last = prev[prev.length - 1];
-        // Simple logic: if the last segment is "Live User", append. 
-        // In a real app, you'd use a timer to break segments.
-        if (last && last.speaker === 'En Vivo') {
-            const updated = [...prev];
-            updated[updated.length - 1] = { ...last, text: last.text + text };
-            return updated;
-        } else {
-            return [...prev, {
-                speaker: 'En Vivo',
-                gender: 'Desconocido', // Live API metadata is limited
-                timestamp: new Date().toLocaleTimeString([], {minute:'2-digit', second:'2-digit'}),
-                text: text
-            }];
-        }
+  const handleTranscriptFileError = (fileName: string, error: unknown) => {
+    setTranscripts([]);
+    setProcessing({ isProcessing: false, error: `No se pudo leer "${fileName}". ${(error as Error).message}` });
+  };
+
+  // Handle Import of a previously exported transcript
+  const handleTranscriptImport = async (content: string, fileName: string) => {
+    let imported: TranscriptSegment[];
+    try {
+      imported = withSegmentStarts(parseTranscriptFile(fileName, content));
+    } catch (error) {
+      setTranscripts([]);
+      setProcessing({ isProcessing: false, error: `No se pudo importar "${fileName}". ${(error as Error).message}` });
+      return;
+    }
+    const { segments, changes } = correct(imported);
+    const meeting = await library.startMeeting({
+      ...takePlan(fileName.replace(/\.[^.]+$/, '')),
+      mode: AppMode.UPLOAD,
+      originalSegments: imported,
+      segments,
     });
+    setTranscripts(segments);
+    setAutoCorrections(changes);
+    setProcessing({ isProcessing: false });
+    if (meeting.agenda?.length) mapAgenda(meeting.id, segments, meeting.agenda);
   };
 
-  // Export Function
-  const handleExport = () => {
-    if (transcripts.length === 0) return;
+  // A new live session always starts a new meeting
+  const handleLiveStart = async () => {
+    setTranscripts([]);
+    setRecordingReviewId(undefined);
+    const meeting = await library.startMeeting({
+      ...takePlan(`En vivo ${new Date().toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}`),
+      mode: AppMode.LIVE,
+    });
+    liveMeetingIdRef.current = meeting.id;
+  };
+
+  // Live text arrives already split into segments, timed from the start of the recording
+  // Corrections run once a segment is complete, so rules never see half a word
+  const handleLiveUpdate = ({ text, start, newSegment, speaker }: LiveTranscriptUpdate) => {
+    updateTranscripts(prev => {
+      const last = prev[prev.length - 1];
+      if (!newSegment && last && !last.gap) {
+        const updated = [...prev];
+        updated[updated.length - 1] = { ...last, text: last.text + text };
+        return updated;
+      }
+      return [...correctLast(prev), {
+        speaker: speaker ?? 'En Vivo',
+        gender: 'Desconocido', // Live API metadata is limited
+        timestamp: formatTimestamp(start),
+        start,
+        text,
+        ...(settings.language !== AUTO_LANGUAGE && { language: settings.language }),
+      }];
+    });
+  };
 
-    let content = "Hablante,Género,Tiempo,Texto\n";
-    transcripts.forEach(t => {
-      // Escape quotes for CSV
-      const safeText = `"${t.text.replace(/"/g, '""')}"`;
-      content += `${t.speaker},${t.gender},${t.timestamp},${safeText}\n`;
+  // Audio the live session could not deliver is marked in the transcript instead of silently missing
+  const handleAudioGap = (gap: AudioGap) => {
+    updateTranscripts(prev => [...prev, {
+      speaker: 'Sistema',
+      gender: 'Desconocido',
+      timestamp: formatTimestamp(gap.start),
+      start: gap.start,
+      end: gap.end,
+      text: `[Audio perdido durante la reconexión: ${formatTimestamp(gap.start)}–${formatTimestamp(gap.end)}]`,
+      gap: true,
+    }]);
+  };
+
+  const correctLast = (segments: TranscriptSegment[]) => {
+    const last = segments[segments.length - 1];
+    if (!last || last.gap) return segments;
+    return [...segments.slice(0, -1), ...correct([last]).segments];
+  };
+
+  // The live recording is kept for playback and offered for a diarized re-transcription
+  const handleRecordingComplete = async (recording: Blob) => {
+    const meetingId = liveMeetingIdRef.current;
+    if (!meetingId) return;
+    // The session has stopped, so the last segment is complete too
+    const isOpen = currentMeetingIdRef.current === meetingId;
+    if (isOpen) updateTranscripts(correctLast);
+    await library.patchMeeting(meetingId, { audio: recording, audioFileName: 'grabacion-en-vivo.wav' });
+    if (isOpen) setRecordingReviewId(meetingId);
+
+    // The transcript is complete now, so the agenda can be mapped as for uploads
+    const meeting = await getMeeting(meetingId);
+    if (meeting?.agenda?.length) {
+      mapAgenda(meetingId, isOpen ? correctLast(transcriptsRef.current) : meeting.segments, meeting.agenda);
+    }
+  };
+
+  // Run the recording through the file path, then either replace the live transcript or
+  // only take speakers and gender from the result
+  const handleRetranscribeRecording = async (strategy: 'replace' | 'reconcile') => {
+    const meeting = currentMeeting;
+    setRecordingReviewId(undefined);
+    if (!meeting?.audio) return;
+    setProcessing({ isProcessing: true, progress: 'Analizando la grabación...' });
+
+    try {
+      const base64 = arrayBufferToBase64(await meeting.audio.arrayBuffer());
+      const diarized = correct(withSegmentStarts(await provider.transcribeFile(
+        base64,
+        meeting.audio.type || 'audio/wav',
+        (progress) => setProcessing({ isProcessing: true, progress }),
+        transcriptionOptions
+      ))).segments;
+      if (currentMeetingIdRef.current !== meeting.id) {
+        await library.patchMeeting(meeting.id, strategy === 'replace'
+          ? { originalSegments: diarized, segments: diarized }
+          : { segments: reconcileSpeakers(meeting.segments, diarized) });
+      } else if (strategy === 'replace') {
+        await library.patchMeeting(meeting.id, { originalSegments: diarized });
+        setTranscripts(diarized);
+      } else {
+        updateTranscripts(prev => reconcileSpeakers(prev, diarized));
+      }
+      setProcessing({ isProcessing: false });
+      // A replaced transcript no longer lines up with the mapping made for the live one
+      if (strategy === 'replace' && meeting.agenda?.length) mapAgenda(meeting.id, diarized, meeting.agenda);
+    } catch (error) {
+      setProcessing({ isProcessing: false, error: `No se pudo transcribir la grabación. ${transcriptionErrorMessage(error)}` });
+    }
+  };
+
+  // Playback of the meeting's recording, kept in sync with the transcript
+  const playerRef = useRef<AudioPlayerHandle>(null);
+  const [playbackTime, setPlaybackTime] = useState<number>();
+  const timedSegments = useMemo(() => withSegmentTimes(transcripts), [transcripts]);
+  const activeIndex = useMemo(() => {
+    if (playbackTime === undefined) return undefined;
+    // Latest segment that has started; gaps keep the previous one highlighted
+    let active: number | undefined;
+    timedSegments.forEach((seg, i) => {
+      if (seg.start! <= playbackTime) active = i;
     });
+    return active;
+  }, [timedSegments, playbackTime]);
+
+  useEffect(() => setPlaybackTime(undefined), [currentMeeting?.id]);
+
+  const handleSeek = (index: number) => {
+    const start = timedSegments[index]?.start;
+    if (start !== undefined) playerRef.current?.seekTo(start);
+  };
 
-    const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.setAttribute('download', `transcripcion_${new Date().toISOString()}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // Meeting minutes generated from the current transcript
+  const [minutesState, setMinutesState] = useState<{ isGenerating: boolean; error?: string }>({ isGenerating: false });
+  const [focusRequest, setFocusRequest] = useState<{ index: number }>();
+
+  useEffect(() => setMinutesState({ isGenerating: false }), [currentMeeting?.id]);
+
+  const handleGenerateMinutes = async () => {
+    if (!provider.generateMinutes || !currentMeeting) return;
+    const meetingId = currentMeeting.id;
+    setMinutesState({ isGenerating: true });
+    try {
+      const minutes = anchorMinutes(await provider.generateMinutes(transcripts), transcripts);
+      await library.patchMeeting(meetingId, { minutes });
+      setMinutesState({ isGenerating: false });
+    } catch (error) {
+      setMinutesState({ isGenerating: false, error: 'No se pudo generar el acta. Inténtalo de nuevo.' });
+    }
+  };
+
+  // Which stretch of the transcript discussed each agenda item
+  const [agendaState, setAgendaState] = useState<{ isMapping: boolean; error?: string }>({ isMapping: false });
+
+  useEffect(() => setAgendaState({ isMapping: false }), [currentMeeting?.id]);
+
+  // Also runs on its own after a file transcription, so the state only follows the open meeting
+  const mapAgenda = async (meetingId: string, segments: TranscriptSegment[], agenda: AgendaItem[]) => {
+    if (!provider.mapAgenda) return;
+    const isOpen = () => currentMeetingIdRef.current === meetingId;
+    if (isOpen()) setAgendaState({ isMapping: true });
+    try {
+      const agendaCoverage = await provider.mapAgenda(segments, agenda);
+      await library.patchMeeting(meetingId, { agendaCoverage });
+      if (isOpen()) setAgendaState({ isMapping: false });
+    } catch (error) {
+      if (isOpen()) setAgendaState({ isMapping: false, error: 'No se pudo asignar la transcripción a la agenda. Inténtalo de nuevo.' });
+    }
+  };
+
+  // Question answering over the transcript, kept per meeting
+  const [chatState, setChatState] = useState<{ isAnswering: boolean; error?: string }>({ isAnswering: false });
+
+  useEffect(() => setChatState({ isAnswering: false }), [currentMeeting?.id]);
+
+  const handleAsk = async (question: string) => {
+    if (!provider.askQuestion || !currentMeeting) return;
+    const meetingId = currentMeeting.id;
+    const history = currentMeeting.chat ?? [];
+    const withQuestion: ChatMessage[] = [...history, { role: 'user', text: question, createdAt: new Date().toISOString() }];
+    library.updateCurrent({ chat: withQuestion });
+    setChatState({ isAnswering: true });
+    try {
+      const answer = anchorCitations(await provider.askQuestion(transcripts, question, history), transcripts);
+      await library.patchMeeting(meetingId, { chat: [...withQuestion, answer] });
+      setChatState({ isAnswering: false });
+    } catch (error) {
+      setChatState({ isAnswering: false, error: 'No se pudo obtener una respuesta. Inténtalo de nuevo.' });
+    }
+  };
+
+  // Translation of transcripts that came without one (live sessions, imports, or a target chosen later)
+  const [isTranslating, setIsTranslating] = useState(false);
+  const needsTranslation = !!settings.translateTo &&
+    transcripts.some(s => !s.gap && !s.translation && s.language !== settings.translateTo);
+
+  const handleTranslate = async () => {
+    if (!provider.translateSegments || !settings.translateTo || !currentMeeting) return;
+    const meetingId = currentMeeting.id;
+    setIsTranslating(true);
+    try {
+      const translated = await provider.translateSegments(transcripts, settings.translateTo);
+      if (currentMeetingIdRef.current === meetingId) {
+        // Keep edits made while the translation was running
+        updateTranscripts(prev => prev.length === translated.length
+          ? prev.map((seg, i) => ({ ...seg, translation: translated[i].translation, language: translated[i].language }))
+          : prev);
+      } else {
+        await library.patchMeeting(meetingId, { segments: translated });
+      }
+    } catch (error) {
+      setProcessing({ isProcessing: false, error: 'No se pudo traducir la transcripción. Inténtalo de nuevo.' });
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  // Undo/Redo shortcuts. Text fields keep their native undo while focused.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      if (!(e.ctrlKey || e.metaKey) || (key !== 'z' && key !== 'y')) return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Personal data redaction: names to hide and the placeholder mapping live in the meeting
+  const redaction = currentMeeting?.redaction ?? EMPTY_REDACTION;
+  const [showRedacted, setShowRedacted] = useState(false);
+  const [entityDetection, setEntityDetection] = useState<{ isDetecting: boolean; error?: string }>({ isDetecting: false });
+
+  useEffect(() => setEntityDetection({ isDetecting: false }), [currentMeeting?.id]);
+
+  // The minutes and chat are masked with the same redactor, so placeholders match the transcript
+  const redactedView = useMemo(() => {
+    if (!showRedacted) return null;
+    const view = redactTranscript(transcripts, redaction, currentMeeting?.attendees);
+    const { redact } = view.redactor;
+    return {
+      ...view,
+      minutes: currentMeeting?.minutes && redactMinutes(currentMeeting.minutes, redact),
+      chat: currentMeeting?.chat?.map(message => ({ ...message, text: redact(message.text) })),
+    };
+  }, [showRedacted, transcripts, redaction, currentMeeting?.attendees, currentMeeting?.minutes, currentMeeting?.chat]);
+
+  const displayedTranscripts = redactedView?.segments ?? transcripts;
+
+  // A mapping made before segments were added, removed, merged or split no longer lines up, so it is not shown
+  const agendaCoverage = currentMeeting?.agendaCoverage;
+  const isAgendaStale = !!agendaCoverage && isCoverageStale(agendaCoverage, transcripts);
+  const sections = useMemo(() => {
+    if (!agendaCoverage || isAgendaStale) return undefined;
+    const built = buildTranscriptSections(transcripts, agendaCoverage, currentMeeting?.agenda);
+    return redactedView ? built.map(s => ({ ...s, title: redactedView.redactor.redact(s.title) })) : built;
+  }, [agendaCoverage, isAgendaStale, transcripts, currentMeeting?.agenda, redactedView]);
+
+  // New placeholders are stored right away so they stay stable and can be reversed
+  const storeRedactionEntries = async (meetingId: string, state: RedactionState, entries: RedactionState['entries']) => {
+    if (entries.length !== state.entries.length) await library.patchMeeting(meetingId, { redaction: { ...state, entries } });
+  };
+
+  const reportRedactionStoreError = (error: unknown) => {
+    console.error("No se pudieron guardar las correspondencias de la anonimización:", error);
+    setProcessing(current => ({
+      ...current,
+      error: 'No se pudieron guardar las correspondencias de la anonimización, por lo que no se podría revertir. Inténtalo de nuevo.',
+    }));
+  };
+
+  useEffect(() => {
+    if (redactedView && currentMeeting) {
+      storeRedactionEntries(currentMeeting.id, redaction, redactedView.redactor.entries).catch(reportRedactionStoreError);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [redactedView]);
+
+  const handleDetectEntities = async () => {
+    if (!provider.detectEntities || !currentMeeting) return;
+    const meetingId = currentMeeting.id;
+    setEntityDetection({ isDetecting: true });
+    try {
+      const found = await provider.detectEntities(transcripts);
+      const known = new Set(redaction.entities.map(e => e.text.toLowerCase()));
+      const entities = [...redaction.entities, ...found.filter(e => !known.has(e.text.toLowerCase()))];
+      await library.patchMeeting(meetingId, { redaction: { ...redaction, entities } });
+      setEntityDetection({ isDetecting: false });
+    } catch (error) {
+      setEntityDetection({ isDetecting: false, error: 'No se pudieron detectar los nombres. Inténtalo de nuevo.' });
+    }
+  };
+
+  const handleRedactionMapExport = () => {
+    const baseName = (currentMeeting && safeFileName(currentMeeting.title)) || 'reunion';
+    downloadBlob(new Blob([serializeRedactionMapCsv(redaction.entries)], { type: 'text/csv;charset=utf-8' }), `${baseName}_correspondencias.csv`);
+  };
+
+  // Everything exported for a meeting; redaction covers the title, attendees and agenda too.
+  // A redacted document is only returned once its placeholders are stored.
+  const buildExportDocument = async (
+    meeting: Meeting | undefined,
+    segments: TranscriptSegment[],
+    redact: boolean
+  ): Promise<ExportDocument> => {
+    const coverage = meeting?.agendaCoverage && !isCoverageStale(meeting.agendaCoverage, segments) ? meeting.agendaCoverage : undefined;
+    const coveredIds = new Set(coverage?.sections.map(s => s.itemId));
+    const doc = {
+      title: meeting?.title,
+      segments,
+      minutes: meeting?.minutes,
+      attendees: meeting?.attendees,
+      agenda: meeting?.agenda?.map(item => ({ title: item.title, ...(coverage && { covered: coveredIds.has(item.id) }) })),
+      sections: coverage && buildTranscriptSections(segments, coverage, meeting?.agenda),
+    };
+    if (!redact) return doc;
+
+    const state = meeting?.redaction ?? EMPTY_REDACTION;
+    const { segments: redacted, redactor } = redactTranscript(segments, state, meeting?.attendees);
+    const result = {
+      ...doc,
+      // Usually the uploaded file name, which often names people
+      title: doc.title && redactor.redact(doc.title),
+      segments: redacted,
+      minutes: doc.minutes && redactMinutes(doc.minutes, redactor.redact),
+      attendees: doc.attendees?.map(name => redactor.placeholderFor('PERSONA', name)),
+      agenda: doc.agenda?.map(item => ({ ...item, title: redactor.redact(item.title) })),
+      sections: doc.sections?.map(s => ({ ...s, title: redactor.redact(s.title) })),
+    };
+    if (meeting) await storeRedactionEntries(meeting.id, state, redactor.entries);
+    return result;
+  };
+
+  // Without stored placeholders the exported file could not be reversed, so nothing is downloaded
+  const handleExport = async (format: ExportFormat, redact: boolean) => {
+    if (transcripts.length === 0) return;
+
+    const { extension } = EXPORT_FORMATS.find(f => f.id === format)!;
+    try {
+      const doc = await buildExportDocument(currentMeeting, transcripts, redact);
+      const baseName = (doc.title && safeFileName(doc.title)) || `transcripcion_${new Date().toISOString()}`;
+      downloadBlob(exportTranscript(doc, format), `${baseName}.${extension}`);
+    } catch (error) {
+      reportRedactionStoreError(error);
+    }
+  };
+
+  // The participation figures are per speaker, so this export is always anonymized
+  const handleAnalyticsExport = async () => {
+    try {
+      const doc = await buildExportDocument(currentMeeting, transcripts, true);
+      const analytics = computeSpeakerAnalytics(doc.segments);
+      const baseName = (doc.title && safeFileName(doc.title)) || 'reunion';
+      downloadBlob(new Blob([serializeAnalyticsCsv(analytics)], { type: 'text/csv;charset=utf-8' }), `${baseName}_participacion.csv`);
+    } catch (error) {
+      reportRedactionStoreError(error);
+    }
+  };
+
+  // Reads the finished batch meetings from the library, so later edits are included
+  const handleBatchExport = async (format: ExportFormat, redact: boolean) => {
+    const ids = batch.jobs.flatMap(job => (job.result ? [job.result.meetingId] : []));
+    const meetings = (await Promise.all(ids.map(id => getMeeting(id)))).filter(m => m !== undefined);
+    if (!meetings.length) return;
+    try {
+      const docs = await Promise.all(meetings.map(m => buildExportDocument(m, m.segments, redact)));
+      downloadBlob(exportTranscriptsZip(docs, format), `transcripciones_${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (error) {
+      reportRedactionStoreError(error);
+    }
   };
 
   return (
     <div className="min-h-screen bg-slate-900 text-slate-100 flex flex-col font-sans selection:bg-indigo-500/30">
       {/* Header */}
       <header className="border-b border-slate-800 bg-slate-900/80 backdrop-blur-md sticky top-0 z-50">
-        <div className="max-w-5xl mx-auto px-6 py-4 flex items-center justify-between">
+        <div className="max-w-6xl mx-auto px-6 py-4 flex items-center justify-between">
           <div className="flex items-center gap-3">
             <div className="w-10 h-10 bg-gradient-to-br from-indigo-500 to-purple-600 rounded-lg flex items-center justify-center shadow-lg shadow-indigo-500/20">
               <Mic className="text-white" size={20} />
@@ -84,13 +614,13 @@ const App: React.FC = () => {
               <h1 className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-white to-slate-400">
                 ReuniónAI
               </h1>
-              <p className="text-xs text-slate-500">Transcripción Inteligente con Gemini</p>
+              <p className="text-xs text-slate-500">Transcripción Inteligente con {provider.label}</p>
             </div>
           </div>
           
           <div className="flex bg-slate-800 p-1 rounded-lg border border-slate-700">
             <button
-              onClick={() => setMode(AppMode.UPLOAD)}
+              onClick={() => handleModeChange(AppMode.UPLOAD)}
               className={`px-4 py-1.5 rounded-md text-sm font-medium transition-all ${mode === AppMode.UPLOAD ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}
             >
               <div className="flex items-center gap-2">
@@ -99,7 +629,7 @@ const App: React.FC = () => {
               </div>
             </button>
             <button
-              onClick={() => setMode(AppMode.LIVE)}
+              onClick={() => handleModeChange(AppMode.LIVE)}
               className={`px-4 py-1.5 rounded-md text-sm font-medium transition-all ${mode === AppMode.LIVE ? 'bg-indigo-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}
             >
               <div className="flex items-center gap-2">
@@ -111,8 +641,21 @@ const App: React.FC = () => {
         </div>
       </header>
 
+      <div className="flex-1 max-w-6xl mx-auto w-full px-6 py-8 flex flex-col lg:flex-row gap-8">
+      {/* Meeting Library */}
+      <MeetingLibrary
+        meetings={library.meetings}
+        error={library.error}
+        currentId={currentMeeting?.id}
+        onOpen={handleOpenMeeting}
+        onNew={handleNewMeeting}
+        onRename={library.rename}
+        onDuplicate={library.duplicate}
+        onDelete={handleDeleteMeeting}
+      />
+
       {/* Main Content */}
-      <main className="flex-1 max-w-4xl mx-auto w-full px-6 py-8">
+      <main className="flex-1 min-w-0">
         
         {/* Helper Card */}
         <div className="mb-8 p-4 bg-indigo-900/10 border border-indigo-500/20 rounded-lg flex gap-3 text-indigo-300 text-sm">
@@ -122,19 +665,74 @@ const App: React.FC = () => {
             <p className="opacity-80">
               {mode === AppMode.UPLOAD 
                 ? "El modo Archivo utiliza Gemini Flash para analizar todo el audio a la vez. Es ideal para obtener: Identificación precisa de hablantes, detección de género (masculino/femenino) y marcas de tiempo exactas."
-                : "El modo En Vivo transcribe en tiempo real. Nota: La identificación de hablantes en tiempo real es limitada comparada con el procesamiento de archivos."}
+                : "El modo En Vivo transcribe en tiempo real y guarda la grabación. Al detenerla puedes volver a transcribirla como archivo para identificar hablantes y su género."}
             </p>
           </div>
         </div>
 
+        <LanguageSettings settings={settings} onChange={updateSettings} disabled={processing.isProcessing} />
+        {mode === AppMode.UPLOAD && (
+          <>
+            <PreprocessSettings settings={preprocessSettings} onChange={updatePreprocessSettings} disabled={processing.isProcessing} />
+            <RosterPanel
+              speakers={roster.speakers}
+              onAdd={roster.addSpeaker}
+              onUpdate={roster.updateSpeaker}
+              onRemove={roster.removeSpeaker}
+            />
+          </>
+        )}
+        <VocabularyPanel
+          vocabulary={vocabulary}
+          onChange={updateVocabulary}
+          segments={transcripts}
+          appliedChanges={autoCorrections}
+          onApply={changes => editTranscript({ type: 'updateTexts', texts: changes.map(c => ({ index: c.index, text: c.after })) })}
+        />
+
+        {/* Plan for the Next Meeting */}
+        {!currentMeeting && !processing.isProcessing && (
+          <MeetingSetup plan={meetingPlan} onChange={patch => setMeetingPlan(plan => ({ ...plan, ...patch }))} />
+        )}
+
         {mode === AppMode.UPLOAD ? (
-          <FileUploader onFileSelected={handleFileProcess} isProcessing={processing.isProcessing} />
+          <FileUploader
+            key={workspaceKey}
+            onFileSelected={handleFileProcess}
+            onTranscriptFileSelected={handleTranscriptImport}
+            onTranscriptFileError={handleTranscriptFileError}
+            isProcessing={processing.isProcessing}
+            onCancel={() => fileAbortRef.current?.abort()}
+            onFilesQueued={batch.add}
+            preprocess={preprocessSettings}
+          />
         ) : (
-          <LiveSession onTranscriptionUpdate={handleLiveUpdate} />
+          <LiveSession
+            provider={provider}
+            options={transcriptionOptions}
+            onSessionStart={handleLiveStart}
+            onTranscriptionUpdate={handleLiveUpdate}
+            onAudioGap={handleAudioGap}
+            onRecordingComplete={handleRecordingComplete}
+          />
+        )}
+
+        {/* Batch Queue */}
+        {mode === AppMode.UPLOAD && (
+          <BatchQueue
+            jobs={batch.jobs}
+            concurrency={batch.concurrency}
+            onConcurrencyChange={batch.setConcurrency}
+            onCancel={batch.cancel}
+            onRetry={batch.retry}
+            onRemove={batch.remove}
+            onOpen={handleOpenMeeting}
+            onExportAll={handleBatchExport}
+          />
         )}
 
         {/* Processing State */}
-        {processing.isProcessing && mode === AppMode.UPLOAD && (
+        {processing.isProcessing && (
           <div className="text-center py-8">
             <div className="inline-block w-8 h-8 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin mb-4"></div>
             <p className="text-indigo-400 font-medium animate-pulse">{processing.progress}</p>
@@ -148,23 +746,140 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {/* Diarized Re-transcription of a Live Recording */}
+        {recordingReviewId && recordingReviewId === currentMeeting?.id && currentMeeting.audio && !processing.isProcessing && (
+          <LiveRecordingPrompt
+            onReplace={() => handleRetranscribeRecording('replace')}
+            onReconcile={() => handleRetranscribeRecording('reconcile')}
+            onDismiss={() => setRecordingReviewId(undefined)}
+          />
+        )}
+
         {/* Results Header */}
         {(transcripts.length > 0) && (
           <div className="flex items-center justify-between mb-4 mt-8 border-b border-slate-800 pb-4">
-            <h2 className="text-lg font-semibold text-slate-200">Transcripción</h2>
-            <button 
-              onClick={handleExport}
-              className="flex items-center gap-2 text-sm text-indigo-400 hover:text-indigo-300 hover:bg-indigo-900/30 px-3 py-1.5 rounded-lg transition-colors"
-            >
-              <Download size={16} />
-              <span>Exportar CSV</span>
-            </button>
+            <h2 className="text-lg font-semibold text-slate-200 truncate">{currentMeeting?.title || 'Transcripción'}</h2>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={undo}
+                disabled={!canUndo}
+                title="Deshacer (Ctrl+Z)"
+                className="p-1.5 rounded-lg text-slate-400 hover:text-slate-200 hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent"
+              >
+                <Undo2 size={16} />
+              </button>
+              <button
+                onClick={redo}
+                disabled={!canRedo}
+                title="Rehacer (Ctrl+Shift+Z)"
+                className="p-1.5 rounded-lg text-slate-400 hover:text-slate-200 hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent"
+              >
+                <Redo2 size={16} />
+              </button>
+              {provider.translateSegments && needsTranslation && (
+                <button
+                  onClick={handleTranslate}
+                  disabled={isTranslating}
+                  className="flex items-center gap-2 text-sm text-indigo-400 hover:text-indigo-300 hover:bg-indigo-900/30 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  <Languages size={16} className={isTranslating ? 'animate-pulse' : ''} />
+                  <span>{isTranslating ? 'Traduciendo...' : 'Traducir'}</span>
+                </button>
+              )}
+              <button
+                onClick={() => setShowRedacted(shown => !shown)}
+                title={showRedacted ? 'Ver el texto original' : 'Ver con los datos personales ocultos'}
+                className={`flex items-center gap-2 text-sm px-3 py-1.5 rounded-lg transition-colors ${showRedacted ? 'text-amber-300 bg-amber-900/30 hover:bg-amber-900/40' : 'text-indigo-400 hover:text-indigo-300 hover:bg-indigo-900/30'}`}
+              >
+                {showRedacted ? <EyeOff size={16} /> : <Eye size={16} />}
+                <span>{showRedacted ? 'Anonimizado' : 'Original'}</span>
+              </button>
+              <ExportMenu onExport={handleExport} />
+            </div>
+          </div>
+        )}
+
+        {/* Agenda */}
+        {currentMeeting && transcripts.length > 0 && !processing.isProcessing && (
+          <AgendaPanel
+            plan={{ title: currentMeeting.title, attendees: currentMeeting.attendees ?? [], agenda: currentMeeting.agenda ?? [] }}
+            onChange={patch => library.updateCurrent(patch)}
+            coverage={agendaCoverage}
+            isStale={isAgendaStale}
+            segments={transcripts}
+            onMap={provider.mapAgenda && (() => mapAgenda(currentMeeting.id, transcripts, currentMeeting.agenda ?? []))}
+            isMapping={agendaState.isMapping}
+            error={agendaState.error}
+            onSegmentClick={index => setFocusRequest({ index })}
+          />
+        )}
+
+        {/* Personal Data */}
+        {currentMeeting && transcripts.length > 0 && !processing.isProcessing && (
+          <RedactionPanel
+            redaction={redaction}
+            onChange={state => library.updateCurrent({ redaction: state })}
+            onDetect={provider.detectEntities && handleDetectEntities}
+            isDetecting={entityDetection.isDetecting}
+            error={entityDetection.error}
+            onExportMap={handleRedactionMapExport}
+          />
+        )}
+
+        {/* Speaker Analytics */}
+        {transcripts.length > 0 && !processing.isProcessing && (
+          <SpeakerAnalytics
+            segments={displayedTranscripts}
+            onSegmentClick={index => setFocusRequest({ index })}
+            onExport={handleAnalyticsExport}
+          />
+        )}
+
+        {/* Meeting Minutes */}
+        {provider.generateMinutes && currentMeeting && transcripts.length > 0 && !processing.isProcessing && (
+          <MinutesPanel
+            minutes={redactedView ? redactedView.minutes : currentMeeting.minutes}
+            segments={displayedTranscripts}
+            isGenerating={minutesState.isGenerating}
+            error={minutesState.error}
+            onGenerate={handleGenerateMinutes}
+            onSegmentClick={index => setFocusRequest({ index })}
+          />
+        )}
+
+        {/* Ask the Meeting */}
+        {provider.askQuestion && currentMeeting && transcripts.length > 0 && !processing.isProcessing && (
+          <MeetingChat
+            messages={(redactedView ? redactedView.chat : currentMeeting.chat) ?? []}
+            segments={displayedTranscripts}
+            isAnswering={chatState.isAnswering}
+            error={chatState.error}
+            onAsk={handleAsk}
+            onClear={() => library.updateCurrent({ chat: [] })}
+            onCitationClick={index => setFocusRequest({ index })}
+          />
+        )}
+
+        {/* Recording Playback */}
+        {currentMeeting?.audio && transcripts.length > 0 && (
+          <div className="sticky top-20 z-30 mb-4">
+            <AudioPlayer ref={playerRef} source={currentMeeting.audio} onTimeUpdate={setPlaybackTime} />
           </div>
         )}
 
         {/* Transcript List */}
-        <TranscriptDisplay segments={transcripts} />
+        <TranscriptDisplay
+          segments={displayedTranscripts}
+          isLoading={mode === AppMode.UPLOAD && processing.isProcessing && transcripts.length > 0}
+          // The redacted view is read-only, so placeholders never end up in the transcript
+          onEdit={redactedView ? undefined : editTranscript}
+          activeIndex={currentMeeting?.audio ? activeIndex : undefined}
+          onSeek={currentMeeting?.audio ? handleSeek : undefined}
+          focusRequest={focusRequest}
+          sections={sections}
+        />
       </main>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CheckCircle2, ChevronDown, CircleDashed, ListChecks, Pencil, Wand2 } from 'lucide-react';
+import { AgendaCoverage, MeetingPlan, TranscriptSegment } from '../types';
+import { cleanPlan } from '../services/agenda';
+import { MeetingPlanForm } from './MeetingSetup';
+
+interface Props {
+  plan: MeetingPlan;
+  onChange: (patch: Partial<MeetingPlan>) => void;
+  coverage?: AgendaCoverage;
+  // Segments were added, removed, merged or split since the coverage was computed
+  isStale: boolean;
+  segments: TranscriptSegment[];
+  // Hidden when the provider cannot map the agenda
+  onMap?: () => void;
+  isMapping: boolean;
+  error?: string;
+  onSegmentClick: (index: number) => void;
+}
+
+const actionButtonClass = 'flex items-center gap-1 text-xs text-indigo-400 hover:text-indigo-300 hover:bg-indigo-900/30 px-2 py-1 rounded-lg transition-colors disabled:opacity-50';
+
+export const AgendaPanel: React.FC<Props> = ({
+  plan,
+  onChange,
+  coverage,
+  isStale,
+  segments,
+  onMap,
+  isMapping,
+  error,
+  onSegmentClick,
+}) => {
+  const [isOpen, setIsOpen] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const { agenda } = plan;
+  // Items added after the mapping count as uncovered until it runs again
+  const coveredIds = new Set(coverage?.sections.map(s => s.itemId));
+  const isUncovered = (id: string) => !!coverage && !coveredIds.has(id);
+  const uncoveredCount = agenda.filter(item => isUncovered(item.id)).length;
+  const offAgenda = coverage?.sections.filter(s => !s.itemId) ?? [];
+
+  const timeLink = (index: number) => (
+    <button key={index} onClick={() => onSegmentClick(index)} className="font-mono text-indigo-300 hover:underline">
+      {segments[index]?.timestamp}
+    </button>
+  );
+
+  const toggleEditing = () => {
+    if (isEditing) {
+      const { attendees, agenda } = cleanPlan(plan);
+      onChange({ attendees, agenda });
+    }
+    setIsEditing(editing => !editing);
+  };
+
+  return (
+    <section className="mb-6 bg-slate-800/60 border border-slate-700 rounded-lg p-4">
+      <div className="flex items-center justify-between">
+        <button onClick={() => setIsOpen(open => !open)} className="flex items-center gap-2 text-sm font-semibold text-slate-200">
+          <ListChecks size={16} className="text-indigo-400" />
+          <span>Agenda</span>
+          {coverage && (
+            <span className="text-xs font-normal text-slate-500">
+              {agenda.length - uncoveredCount} de {agenda.length} puntos tratados
+            </span>
+          )}
+          <ChevronDown size={14} className={`text-slate-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </button>
+        <div className="flex items-center gap-1">
+          <button onClick={toggleEditing} className={actionButtonClass}>
+            <Pencil size={12} />
+            <span>{isEditing ? 'Listo' : 'Editar'}</span>
+          </button>
+          {onMap && agenda.length > 0 && (
+            <button onClick={onMap} disabled={isMapping} className={actionButtonClass}>
+              <Wand2 size={12} className={isMapping ? 'animate-pulse' : ''} />
+              <span>{isMapping ? 'Asignando...' : coverage ? 'Volver a asignar' : 'Asignar a la agenda'}</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          {coverage && isStale && (
+            <p className="flex items-center gap-2 text-xs text-amber-400">
+              <AlertTriangle size={12} className="shrink-0" />
+              <span>La transcripción ha cambiado desde la asignación; las secciones pueden estar desplazadas.</span>
+            </p>
+          )}
+
+          {isEditing ? (
+            <MeetingPlanForm plan={plan} onChange={onChange} showTitle={false} />
+          ) : (
+            <>
+              {plan.attendees.length > 0 && (
+                <p className="text-xs text-slate-400">
+                  <span className="text-slate-500">Asistentes:</span> {plan.attendees.join(', ')}
+                </p>
+              )}
+              {agenda.length ? (
+                <ol className="space-y-1.5">
+                  {agenda.map((item, i) => {
+                    const sections = coverage?.sections.filter(s => s.itemId === item.id) ?? [];
+                    return (
+                      <li key={item.id} className="flex items-start gap-2 text-sm">
+                        {!coverage ? (
+                          <span className="w-4 text-right text-xs text-slate-500 mt-0.5">{i + 1}.</span>
+                        ) : isUncovered(item.id) ? (
+                          <CircleDashed size={14} className="text-amber-400 mt-0.5 shrink-0" />
+                        ) : (
+                          <CheckCircle2 size={14} className="text-emerald-400 mt-0.5 shrink-0" />
+                        )}
+                        <span className={coverage && isUncovered(item.id) ? 'text-slate-400' : 'text-slate-200'}>{item.title}</span>
+                        {coverage && isUncovered(item.id) && <span className="text-xs text-amber-400 mt-0.5">No se trató</span>}
+                        {sections.length > 0 && (
+                          <span className="flex gap-2 text-xs mt-0.5">
+                            {sections.map(s => timeLink(s.firstIndex))}
+                          </span>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ol>
+              ) : (
+                <p className="text-xs text-slate-500">Esta reunión no tiene agenda. Añade los puntos con «Editar».</p>
+              )}
+
+              {offAgenda.length > 0 && (
+                <div>
+                  <h4 className="text-xs uppercase tracking-wide font-semibold text-slate-400 mb-2">Temas fuera de la agenda</h4>
+                  <ul className="space-y-1.5">
+                    {offAgenda.map(section => (
+                      <li key={section.firstIndex} className="flex items-center gap-2 text-sm text-slate-300">
+                        <AlertTriangle size={14} className="text-amber-400 shrink-0" />
+                        <span>{section.title}</span>
+                        <span className="text-xs">{timeLink(section.firstIndex)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
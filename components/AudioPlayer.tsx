@@ -0,0 +1,106 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { Play, Pause, RotateCcw } from 'lucide-react';
+import { formatTimestamp } from '../services/timeUtils';
+
+export interface AudioPlayerHandle {
+  seekTo: (seconds: number) => void;
+}
+
+interface Props {
+  source: Blob;
+  onTimeUpdate?: (seconds: number) => void;
+}
+
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+export const AudioPlayer = forwardRef<AudioPlayerHandle, Props>(({ source, onTimeUpdate }, ref) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [url, setUrl] = useState<string>();
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [playbackRate, setPlaybackRate] = useState(1);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(source);
+    setUrl(objectUrl);
+    setCurrentTime(0);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [source]);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = playbackRate;
+  }, [playbackRate, url]);
+
+  useImperativeHandle(ref, () => ({
+    seekTo: (seconds: number) => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      audio.currentTime = seconds;
+      audio.play().catch(err => console.error("No se pudo reproducir el audio:", err));
+    },
+  }), []);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) audio.play().catch(err => console.error("No se pudo reproducir el audio:", err));
+    else audio.pause();
+  };
+
+  // timeupdate fires ~4 times per second, which is plenty for segment highlighting
+  const handleTimeUpdate = () => {
+    const time = audioRef.current?.currentTime ?? 0;
+    setCurrentTime(time);
+    onTimeUpdate?.(time);
+  };
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-lg p-3 flex items-center gap-3">
+      <audio
+        ref={audioRef}
+        src={url}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onTimeUpdate={handleTimeUpdate}
+        onLoadedMetadata={() => setDuration(audioRef.current?.duration ?? 0)}
+        preload="metadata"
+      />
+      <button
+        onClick={togglePlay}
+        className="w-9 h-9 shrink-0 rounded-full bg-indigo-500 hover:bg-indigo-600 text-white flex items-center justify-center"
+        title={isPlaying ? 'Pausar' : 'Reproducir'}
+      >
+        {isPlaying ? <Pause size={16} /> : <Play size={16} className="ml-0.5" />}
+      </button>
+      <button
+        onClick={() => audioRef.current && (audioRef.current.currentTime = Math.max(0, audioRef.current.currentTime - 5))}
+        className="p-1.5 rounded text-slate-400 hover:text-slate-200"
+        title="Retroceder 5 segundos"
+      >
+        <RotateCcw size={14} />
+      </button>
+      <span className="text-xs text-slate-400 tabular-nums w-12 text-right">{formatTimestamp(currentTime)}</span>
+      <input
+        type="range"
+        min={0}
+        max={duration || 0}
+        step={0.1}
+        value={currentTime}
+        onChange={e => audioRef.current && (audioRef.current.currentTime = Number(e.target.value))}
+        className="flex-1 accent-indigo-500"
+      />
+      <span className="text-xs text-slate-500 tabular-nums w-12">{formatTimestamp(duration)}</span>
+      <select
+        value={playbackRate}
+        onChange={e => setPlaybackRate(Number(e.target.value))}
+        className="bg-slate-900 border border-slate-700 rounded text-xs text-slate-300 px-1 py-1 outline-none"
+        title="Velocidad de reproducción"
+      >
+        {PLAYBACK_RATES.map(rate => (
+          <option key={rate} value={rate}>{rate}x</option>
+        ))}
+      </select>
+    </div>
+  );
+});
@@ -0,0 +1,124 @@
+import React from 'react';
+import { Clock, Upload, Loader2, CheckCircle2, AlertCircle, Ban, RotateCcw, X, FolderOpen, Trash2, ListOrdered } from 'lucide-react';
+import { BatchJobStatus } from '../services/batchQueue';
+import { ExportFormat } from '../services/exportService';
+import { TranscriptionJob } from '../hooks/useBatchTranscription';
+import { ExportMenu } from './ExportMenu';
+
+interface Props {
+  jobs: TranscriptionJob[];
+  concurrency: number;
+  onConcurrencyChange: (value: number) => void;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onOpen: (meetingId: string) => void;
+  // Exports every finished job in one ZIP
+  onExportAll: (format: ExportFormat, redact: boolean) => void;
+}
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const STATUS_INFO: Record<BatchJobStatus, { label: string; icon: React.ReactNode; className: string }> = {
+  queued: { label: 'En cola', icon: <Clock size={16} />, className: 'text-slate-400' },
+  uploading: { label: 'Subiendo', icon: <Upload size={16} className="animate-pulse" />, className: 'text-indigo-300' },
+  transcribing: { label: 'Transcribiendo', icon: <Loader2 size={16} className="animate-spin" />, className: 'text-indigo-300' },
+  done: { label: 'Terminado', icon: <CheckCircle2 size={16} />, className: 'text-emerald-400' },
+  failed: { label: 'Error', icon: <AlertCircle size={16} />, className: 'text-red-400' },
+  cancelled: { label: 'Cancelado', icon: <Ban size={16} />, className: 'text-slate-500' },
+};
+
+const iconButton = 'p-1.5 rounded-lg text-slate-400 transition-colors';
+
+export const BatchQueue: React.FC<Props> = ({
+  jobs,
+  concurrency,
+  onConcurrencyChange,
+  onCancel,
+  onRetry,
+  onRemove,
+  onOpen,
+  onExportAll,
+}) => {
+  if (!jobs.length) return null;
+  const finished = jobs.filter(job => job.status === 'done').length;
+
+  return (
+    <section className="mb-8 bg-slate-800/50 border border-slate-700 rounded-xl p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-slate-300">
+          <ListOrdered size={16} />
+          <span>Cola de transcripción</span>
+          <span className="text-xs font-normal text-slate-500">{finished} de {jobs.length} terminados</span>
+        </h3>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            <span>Simultáneos</span>
+            <select
+              value={concurrency}
+              onChange={e => onConcurrencyChange(Number(e.target.value))}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200"
+            >
+              {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <ExportMenu onExport={onExportAll} disabled={!finished} />
+        </div>
+      </div>
+
+      <ul className="divide-y divide-slate-700/60">
+        {jobs.map(job => {
+          const info = STATUS_INFO[job.status];
+          const running = job.status === 'uploading' || job.status === 'transcribing';
+          return (
+            <li key={job.id} className="flex items-center gap-3 py-2">
+              <span className={info.className} title={info.label}>{info.icon}</span>
+              <div className="min-w-0 flex-1">
+                <p className="text-sm text-slate-200 truncate">{job.item.name}</p>
+                <p className={`text-xs truncate ${job.status === 'failed' ? 'text-red-300' : 'text-slate-500'}`}>
+                  {job.error ?? job.progress ?? info.label}
+                  {job.result && ` · ${job.result.segmentCount} segmentos`}
+                </p>
+              </div>
+              {job.result && (
+                <button
+                  onClick={() => onOpen(job.result!.meetingId)}
+                  title="Abrir transcripción"
+                  className={`${iconButton} hover:text-indigo-300 hover:bg-indigo-900/30`}
+                >
+                  <FolderOpen size={16} />
+                </button>
+              )}
+              {(job.status === 'failed' || job.status === 'cancelled') && (
+                <button
+                  onClick={() => onRetry(job.id)}
+                  title="Reintentar"
+                  className={`${iconButton} hover:text-indigo-300 hover:bg-indigo-900/30`}
+                >
+                  <RotateCcw size={16} />
+                </button>
+              )}
+              {(running || job.status === 'queued') ? (
+                <button
+                  onClick={() => onCancel(job.id)}
+                  title="Cancelar"
+                  className={`${iconButton} hover:text-red-400 hover:bg-red-900/20`}
+                >
+                  <X size={16} />
+                </button>
+              ) : (
+                <button
+                  onClick={() => onRemove(job.id)}
+                  title="Quitar de la cola"
+                  className={`${iconButton} hover:text-red-400 hover:bg-red-900/20`}
+                >
+                  <Trash2 size={16} />
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
@@ -0,0 +1,62 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, ChevronDown } from 'lucide-react';
+import { EXPORT_FORMATS, ExportFormat } from '../services/exportService';
+
+interface Props {
+  // `redact` asks for personal data to be replaced with placeholders
+  onExport: (format: ExportFormat, redact: boolean) => void;
+  disabled?: boolean;
+}
+
+export const ExportMenu: React.FC<Props> = ({ onExport, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // Redacted unless the user asks otherwise
+  const [redact, setRedact] = useState(true);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        className="flex items-center gap-2 text-sm text-indigo-400 hover:text-indigo-300 hover:bg-indigo-900/30 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+      >
+        <Download size={16} />
+        <span>Exportar</span>
+        <ChevronDown size={14} className={`transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-56 bg-slate-800 border border-slate-700 rounded-lg shadow-xl z-40 py-1">
+          <label className="flex items-center gap-2 px-3 py-2 text-xs text-slate-400 border-b border-slate-700 cursor-pointer">
+            <input type="checkbox" checked={redact} onChange={e => setRedact(e.target.checked)} className="accent-indigo-500" />
+            <span>Anonimizar datos personales</span>
+          </label>
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => {
+                setIsOpen(false);
+                onExport(format.id, redact);
+              }}
+              className="w-full flex items-center justify-between px-3 py-2 text-sm text-slate-300 hover:bg-slate-700 hover:text-white"
+            >
+              <span>{format.label}</span>
+              <span className="text-xs text-slate-500">.{format.extension}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
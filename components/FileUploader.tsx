@@ -1,45 +1,119 @@
 import React, { useState, useRef } from 'react';
-import { Upload, FileAudio, X, Play } from 'lucide-react';
+import { Upload, FileAudio, FileText, X, Play, ArrowRight } from 'lucide-react';
+import { isTranscriptFile, TRANSCRIPT_EXTENSIONS } from '../services/importService';
+import { PreprocessedAudio, PreprocessOptions, preprocessAudio } from '../services/audioPreprocessing';
+import { formatTimestamp } from '../services/timeUtils';
 
 interface Props {
-  onFileSelected: (base64: string, mimeType: string, fileName: string) => void;
+  // `prepared` is set when the payload is the preprocessed audio rather than the file itself
+  onFileSelected: (base64: string, mimeType: string, fileName: string, file: File, prepared?: PreprocessedAudio) => void;
+  // Previously exported transcripts (.json, .srt, .vtt, .csv) are handed over as text
+  onTranscriptFileSelected: (content: string, fileName: string) => void;
+  // The transcript file could not be read (e.g. it was removed or is not accessible)
+  onTranscriptFileError: (fileName: string, error: unknown) => void;
   isProcessing: boolean;
+  // Stops the transcription in progress
+  onCancel?: () => void;
+  // Several audio files picked or dropped at once go to the batch queue instead
+  onFilesQueued?: (files: File[]) => void;
+  preprocess?: PreprocessOptions;
 }
 
-export const FileUploader: React.FC<Props> = ({ onFileSelected, isProcessing }) => {
+// Videos are accepted too; the browser extracts their audio track
+const isMediaFile = (file: File) =>
+  file.type.startsWith('audio/') || file.type.startsWith('video/') || file.type.includes('mp4');
+
+const formatSize = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+
+const readAsBase64 = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  // Remove data URL prefix (e.g., "data:audio/mpeg;base64,")
+  reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+export const FileUploader: React.FC<Props> = ({
+  onFileSelected,
+  onTranscriptFileSelected,
+  onTranscriptFileError,
+  isProcessing,
+  onCancel,
+  onFilesQueued,
+  preprocess,
+}) => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [prepared, setPrepared] = useState<PreprocessedAudio | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      processFile(e.target.files[0]);
+  const handleFiles = (files: File[]) => {
+    if (files.length > 1 && onFilesQueued) {
+      const audio = files.filter(isMediaFile);
+      if (audio.length < files.length) {
+        alert("Solo se pueden poner en cola archivos de audio; el resto se ha ignorado.");
+      }
+      if (audio.length) onFilesQueued(audio);
+    } else if (files[0]) {
+      processFile(files[0]);
     }
   };
 
-  const processFile = (file: File) => {
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(Array.from(e.target.files ?? []));
+    // Allow picking the same files again for another batch
+    if (onFilesQueued) e.target.value = '';
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!isProcessing) handleFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const processFile = async (file: File) => {
+    if (isTranscriptFile(file.name)) {
+      setSelectedFile(file);
+      file.text().then(
+        content => onTranscriptFileSelected(content, file.name),
+        error => onTranscriptFileError(file.name, error)
+      );
+      return;
+    }
+
     // Basic validation
     const validTypes = ['audio/mp4', 'audio/mpeg', 'audio/x-m4a', 'audio/wav', 'audio/aac', 'audio/webm'];
     // Many mobile devices record in audio/mp4 or audio/x-m4a
     // We accept general audio
-    if (!file.type.startsWith('audio/') && !file.type.includes('mp4')) {
-        alert("Por favor selecciona un archivo de audio válido.");
+    if (!isMediaFile(file)) {
+        alert("Por favor selecciona un archivo de audio o una transcripción exportada válida.");
         return;
     }
 
     setSelectedFile(file);
-    
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const result = reader.result as string;
-      // Remove data URL prefix (e.g., "data:audio/mpeg;base64,")
-      const base64Data = result.split(',')[1];
-      onFileSelected(base64Data, file.type, file.name);
-    };
-    reader.readAsDataURL(file);
+    setPrepared(null);
+
+    if (preprocess?.enabled) {
+      setIsPreparing(true);
+      try {
+        const result = await preprocessAudio(file, preprocess);
+        setPrepared(result);
+        onFileSelected(await readAsBase64(result.blob), result.mimeType, file.name, file, result);
+        return;
+      } catch (error) {
+        // Formats the browser cannot decode are still worth sending as they are
+        console.warn("No se pudo optimizar el audio, se enviará el archivo original:", error);
+      } finally {
+        setIsPreparing(false);
+      }
+    }
+    onFileSelected(await readAsBase64(file), file.type, file.name, file);
   };
 
   const clearFile = () => {
     setSelectedFile(null);
+    setPrepared(null);
     if (inputRef.current) inputRef.current.value = '';
   };
 
@@ -48,9 +122,15 @@ export const FileUploader: React.FC<Props> = ({ onFileSelected, isProcessing })
       {!selectedFile ? (
         <div 
           onClick={() => !isProcessing && inputRef.current?.click()}
+          onDragOver={e => {
+            e.preventDefault();
+            if (!isProcessing) setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
           className={`
             border-2 border-dashed rounded-xl p-10 text-center cursor-pointer transition-all
-            ${isProcessing ? 'border-slate-700 opacity-50 cursor-not-allowed' : 'border-slate-600 hover:border-indigo-500 hover:bg-slate-800/50'}
+            ${isProcessing ? 'border-slate-700 opacity-50 cursor-not-allowed' : isDragging ? 'border-indigo-500 bg-slate-800/50' : 'border-slate-600 hover:border-indigo-500 hover:bg-slate-800/50'}
           `}
         >
           <input 
@@ -58,34 +138,62 @@ export const FileUploader: React.FC<Props> = ({ onFileSelected, isProcessing })
             ref={inputRef} 
             onChange={handleFileChange} 
             className="hidden" 
-            accept="audio/*,.m4a"
+            multiple={!!onFilesQueued}
+            accept={['audio/*', 'video/*', '.m4a', ...TRANSCRIPT_EXTENSIONS.map(ext => `.${ext}`)].join(',')}
           />
           <div className="flex flex-col items-center gap-3">
             <div className="p-4 bg-slate-800 rounded-full text-indigo-400">
               <Upload size={32} />
             </div>
             <h3 className="text-lg font-medium text-slate-200">Sube tu grabación de reunión</h3>
-            <p className="text-sm text-slate-400">Soporta M4A, MP3, WAV (Móviles)</p>
+            <p className="text-sm text-slate-400">Soporta M4A, MP3, WAV (Móviles) y vídeos</p>
+            {onFilesQueued && (
+              <p className="text-xs text-slate-500">Arrastra o selecciona varios audios a la vez para transcribirlos en cola</p>
+            )}
+            <p className="text-xs text-slate-500">O abre una transcripción exportada (JSON, SRT, VTT, CSV) para seguir editándola</p>
           </div>
         </div>
       ) : (
         <div className="bg-slate-800 border border-slate-700 rounded-xl p-4 flex items-center justify-between">
           <div className="flex items-center gap-4">
             <div className="bg-indigo-900/30 p-3 rounded-lg text-indigo-400">
-              <FileAudio size={24} />
+              {isTranscriptFile(selectedFile.name) ? <FileText size={24} /> : <FileAudio size={24} />}
             </div>
             <div>
               <p className="font-medium text-slate-200 truncate max-w-[200px] sm:max-w-md">{selectedFile.name}</p>
-              <p className="text-xs text-slate-500">{(selectedFile.size / (1024 * 1024)).toFixed(2)} MB</p>
+              {prepared ? (
+                <p className="flex items-center gap-1.5 text-xs text-slate-500" title="Antes y después de optimizar el audio">
+                  <span>{formatSize(prepared.originalSize)} · {formatTimestamp(prepared.originalDuration)}</span>
+                  <ArrowRight size={12} />
+                  <span className="text-emerald-400">{formatSize(prepared.size)} · {formatTimestamp(prepared.duration)}</span>
+                  <span>({prepared.mimeType === 'audio/ogg' ? 'Opus' : 'WAV'})</span>
+                </p>
+              ) : (
+                <p className="text-xs text-slate-500">
+                  {formatSize(selectedFile.size)}
+                  {isPreparing && ' · Optimizando audio...'}
+                </p>
+              )}
             </div>
           </div>
-          {!isProcessing && (
+          {isPreparing ? null : !isProcessing ? (
             <button 
               onClick={clearFile}
               className="p-2 hover:bg-red-900/20 text-slate-400 hover:text-red-400 rounded-lg transition-colors"
             >
               <X size={20} />
             </button>
+          ) : onCancel && (
+            <button
+              onClick={() => {
+                onCancel();
+                clearFile();
+              }}
+              className="flex items-center gap-2 text-sm px-3 py-1.5 rounded-lg border border-red-500/40 text-red-300 hover:bg-red-900/20 transition-colors"
+            >
+              <X size={16} />
+              <span>Cancelar</span>
+            </button>
           )}
         </div>
       )}
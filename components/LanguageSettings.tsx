@@ -0,0 +1,42 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { TranscriptionOptions } from '../types';
+import { AUTO_LANGUAGE, LANGUAGES } from '../services/languages';
+
+interface Props {
+  settings: TranscriptionOptions;
+  onChange: (patch: Partial<TranscriptionOptions>) => void;
+  disabled?: boolean;
+}
+
+const selectClass = 'bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-slate-200 outline-none focus:border-indigo-500/50 disabled:opacity-50';
+
+export const LanguageSettings: React.FC<Props> = ({ settings, onChange, disabled }) => (
+  <div className="flex flex-wrap items-center gap-3 mb-6 text-sm text-slate-400">
+    <Languages size={16} className="text-indigo-400" />
+    <label className="flex items-center gap-2">
+      <span>Idioma</span>
+      <select
+        value={settings.language}
+        disabled={disabled}
+        onChange={e => onChange({ language: e.target.value })}
+        className={selectClass}
+      >
+        <option value={AUTO_LANGUAGE}>Detectar automáticamente</option>
+        {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+      </select>
+    </label>
+    <label className="flex items-center gap-2">
+      <span>Traducir a</span>
+      <select
+        value={settings.translateTo ?? ''}
+        disabled={disabled}
+        onChange={e => onChange({ translateTo: e.target.value || undefined })}
+        className={selectClass}
+      >
+        <option value="">Sin traducción</option>
+        {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+      </select>
+    </label>
+  </div>
+);
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Users, RefreshCw, GitMerge, X } from 'lucide-react';
+
+interface Props {
+  onReplace: () => void;
+  onReconcile: () => void;
+  onDismiss: () => void;
+}
+
+export const LiveRecordingPrompt: React.FC<Props> = ({ onReplace, onReconcile, onDismiss }) => (
+  <section className="mb-6 bg-indigo-900/10 border border-indigo-500/30 rounded-lg p-4">
+    <div className="flex items-start justify-between gap-3">
+      <div className="flex gap-3 text-sm text-indigo-200">
+        <Users size={18} className="shrink-0 mt-0.5 text-indigo-400" />
+        <div>
+          <p className="font-semibold mb-1">Grabación guardada</p>
+          <p className="opacity-80">
+            Puedes transcribir la grabación completa como un archivo para separar hablantes, detectar el género y ajustar las marcas de tiempo.
+          </p>
+        </div>
+      </div>
+      <button onClick={onDismiss} title="Mantener la transcripción en vivo" className="p-1 rounded text-slate-500 hover:text-slate-300">
+        <X size={16} />
+      </button>
+    </div>
+    <div className="flex flex-wrap gap-2 mt-3 ml-7">
+      <button
+        onClick={onReplace}
+        className="flex items-center gap-2 text-xs px-3 py-1.5 rounded-lg bg-indigo-500 hover:bg-indigo-600 text-white"
+      >
+        <RefreshCw size={12} />
+        <span>Reemplazar por la transcripción con hablantes</span>
+      </button>
+      <button
+        onClick={onReconcile}
+        title="Conserva el texto en vivo y tus correcciones, y solo asigna hablantes y género"
+        className="flex items-center gap-2 text-xs px-3 py-1.5 rounded-lg border border-indigo-500/50 text-indigo-300 hover:bg-indigo-900/30"
+      >
+        <GitMerge size={12} />
+        <span>Asignar hablantes al texto en vivo</span>
+      </button>
+    </div>
+  </section>
+);
@@ -1,33 +1,86 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Mic, MicOff, AlertCircle } from 'lucide-react';
-import { connectLiveSession } from '../services/geminiService';
-import { float32ToInt16, arrayBufferToBase64 } from '../services/audioUtils';
+import { Mic, MicOff, AlertCircle, Wifi, WifiOff, Loader2, MonitorSpeaker } from 'lucide-react';
+import { AudioCapture, startAudioCapture, CAPTURE_SAMPLE_RATE } from '../services/audioCapture';
+import { concatInt16, encodeWav } from '../services/audioUtils';
+import { AudioGap, LiveConnectionState, LiveSessionManager, createLiveSessionManager } from '../services/liveSessionManager';
+import { LiveTranscriptUpdate, createLiveSegmenter } from '../services/liveSegmenter';
+import { TranscriptionOptions, TranscriptionProvider } from '../types';
 
 interface Props {
-  onTranscriptionUpdate: (text: string) => void;
+  provider: TranscriptionProvider;
+  options?: TranscriptionOptions;
+  onSessionStart?: () => void;
+  onTranscriptionUpdate: (update: LiveTranscriptUpdate) => void;
+  // Audio lost during a reconnect, in seconds from the start of the recording
+  onAudioGap?: (gap: AudioGap) => void;
+  // WAV of everything captured, delivered when the session stops
+  onRecordingComplete?: (recording: Blob) => void;
 }
 
-export const LiveSession: React.FC<Props> = ({ onTranscriptionUpdate }) => {
+type InputSource = 'mic' | 'mic+tab';
+
+// Live segments are labelled by the source that carried the speech
+export const LOCAL_SPEAKER = 'Yo';
+export const REMOTE_SPEAKER = 'Otros participantes';
+const METER_LABELS = ['Micrófono', 'Pestaña'];
+
+const canShareTabAudio = () => typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getDisplayMedia;
+
+const ConnectionBadge: React.FC<{ state: LiveConnectionState; attempt: number }> = ({ state, attempt }) => {
+  if (state === 'open') {
+    return (
+      <span className="flex items-center gap-1.5 text-xs text-emerald-400">
+        <Wifi size={14} /> Conectado
+      </span>
+    );
+  }
+  if (state === 'closed') {
+    return (
+      <span className="flex items-center gap-1.5 text-xs text-slate-500">
+        <WifiOff size={14} /> Desconectado
+      </span>
+    );
+  }
+  return (
+    <span className="flex items-center gap-1.5 text-xs text-amber-400">
+      <Loader2 size={14} className="animate-spin" />
+      {state === 'connecting' ? 'Conectando...' : `Reconectando (intento ${attempt})... El audio se guarda mientras tanto.`}
+    </span>
+  );
+};
+
+export const LiveSession: React.FC<Props> = ({ provider, options, onSessionStart, onTranscriptionUpdate, onAudioGap, onRecordingComplete }) => {
   const [isActive, setIsActive] = useState(false);
+  // From the click on start until the session connects or stops, so a second click cannot start another
+  const [isStarting, setIsStarting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [connection, setConnection] = useState<{ state: LiveConnectionState; attempt: number } | null>(null);
+  const [inputSource, setInputSource] = useState<InputSource>('mic');
+  // Set when the shared tab stops mid-session and only the microphone is left
+  const [tabEnded, setTabEnded] = useState(false);
   
   // Refs for audio processing
   const audioContextRef = useRef<AudioContext | null>(null);
-  const mediaStreamRef = useRef<MediaStream | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
-  const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const sessionRef = useRef<any>(null); // To store the Gemini Live session
+  const mediaStreamsRef = useRef<MediaStream[]>([]);
+  const captureRef = useRef<AudioCapture | null>(null);
+  const sourcesRef = useRef<MediaStreamAudioSourceNode[]>([]);
+  const managerRef = useRef<LiveSessionManager | null>(null);
+  // Local copy of the captured PCM, independent of what reached the provider
+  const recordingRef = useRef<Int16Array[]>([]);
 
   // Canvas for visualizer
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const analyzerRef = useRef<AnalyserNode | null>(null);
+  const metersRef = useRef<{ label: string; analyser: AnalyserNode; data: Float32Array }[]>([]);
   const animationFrameRef = useRef<number>();
 
   const startSession = async () => {
+    setIsStarting(true);
     setError(null);
+    setTabEnded(false);
     try {
-      // 1. Get Microphone
-      const stream = await navigator.mediaDevices.getUserMedia({ 
+      // 1. Get Microphone, plus the shared tab or screen audio when selected
+      const mic = await navigator.mediaDevices.getUserMedia({ 
         audio: { 
           sampleRate: 16000, 
           channelCount: 1,
@@ -35,98 +88,121 @@ export const LiveSession: React.FC<Props> = ({ onTranscriptionUpdate }) => {
           noiseSuppression: true
         } 
       });
-      mediaStreamRef.current = stream;
+      mediaStreamsRef.current = [mic];
+      if (inputSource === 'mic+tab') {
+        // Browsers only share tab/system audio along with video; the video is dropped right away
+        const display = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+        display.getVideoTracks().forEach(track => track.stop());
+        mediaStreamsRef.current.push(display);
+        const [tabTrack] = display.getAudioTracks();
+        if (!tabTrack) {
+          stopSession();
+          setError("No se compartió audio. Elige una pestaña y marca «Compartir audio».");
+          return;
+        }
+        // Stopping the share from the browser ends the track; the session carries on with the microphone
+        tabTrack.addEventListener('ended', () => {
+          metersRef.current = metersRef.current.filter(meter => meter.label !== METER_LABELS[1]);
+          setTabEnded(true);
+        });
+      }
+      const streams = mediaStreamsRef.current;
+      onSessionStart?.();
 
       // 2. Setup Audio Context
       const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
       const ctx = new AudioContextClass({ sampleRate: 16000 });
       audioContextRef.current = ctx;
 
-      const source = ctx.createMediaStreamSource(stream);
-      sourceRef.current = source;
+      const sources = streams.map(stream => ctx.createMediaStreamSource(stream));
+      sourcesRef.current = sources;
 
-      // 3. Analyzer for Visualizer
+      // 3. Analyzer for Visualizer on the mix, and a level meter per source
       const analyzer = ctx.createAnalyser();
       analyzer.fftSize = 256;
-      source.connect(analyzer);
+      sources.forEach(source => source.connect(analyzer));
       analyzerRef.current = analyzer;
+      metersRef.current = sources.map((source, i) => {
+        const meter = ctx.createAnalyser();
+        meter.fftSize = 512;
+        source.connect(meter);
+        return { label: METER_LABELS[i], analyser: meter, data: new Float32Array(meter.fftSize) };
+      });
+
+      // Each source gets its own channel, so the capture can tell them apart before mixing
+      let input: AudioNode = sources[0];
+      if (sources.length > 1) {
+        const merger = ctx.createChannelMerger(sources.length);
+        sources.forEach((source, i) => source.connect(merger, 0, i));
+        input = merger;
+      }
 
-      // 4. Processor for Data Stream
-      // Using legacy ScriptProcessor for broader compatibility in this context, 
-      // though AudioWorklet is preferred for heavy production.
-      const processor = ctx.createScriptProcessor(4096, 1, 1);
-      processorRef.current = processor;
-
-      // 5. Connect to Gemini Live
-      const sessionPromise = connectLiveSession(
-        () => setIsActive(true),
-        (text, isFinal) => {
-           onTranscriptionUpdate(text);
+      // 4. Split the streamed text into segments timed from the start of the recording
+      const segmenter = createLiveSegmenter(onTranscriptionUpdate, sources.length > 1 ? [LOCAL_SPEAKER, REMOTE_SPEAKER] : []);
+
+      // 5. Connect through the session manager, which buffers audio and reconnects on drops
+      const manager = createLiveSessionManager(provider, {
+        onStateChange: (state, attempt) => {
+          setConnection({ state, attempt });
+          if (state === 'open') {
+            setIsActive(true);
+            setIsStarting(false);
+          }
         },
-        () => setIsActive(false),
-        (err) => {
+        onTranscription: (text, isFinal) => segmenter.addText(text, isFinal),
+        onGap: (gap) => onAudioGap?.(gap),
+        onFatalError: (err) => {
           console.error("Live API Error:", err);
-          setError("Error de conexión con la API en vivo.");
+          setError("No se pudo conectar con el servicio de transcripción.");
           stopSession();
-        }
-      );
-
-      // 6. Handle Audio Process
-      processor.onaudioprocess = (e) => {
-        const inputData = e.inputBuffer.getChannelData(0);
-        // Convert to PCM Int16
-        const pcmData = float32ToInt16(inputData);
-        // Encode to base64
-        const base64Data = arrayBufferToBase64(pcmData.buffer);
-
-        // Send to Gemini
-        sessionPromise.then(session => {
-          sessionRef.current = session;
-          session.sendRealtimeInput({
-            media: {
-              mimeType: 'audio/pcm;rate=16000',
-              data: base64Data
-            }
-          });
-        }).catch(e => console.error("Session not ready", e));
-      };
-
-      source.connect(processor);
-      processor.connect(ctx.destination); // Required for script processor to run
+        },
+      }, options);
+      managerRef.current = manager;
+
+      // 6. Capture 16kHz PCM packets in an AudioWorklet
+      recordingRef.current = [];
+      captureRef.current = await startAudioCapture(ctx, input, packet => {
+        recordingRef.current.push(packet.pcm);
+        segmenter.addAudio(packet.pcm, packet.channelLevels);
+        manager.push(packet);
+      });
 
       drawVisualizer();
 
     } catch (err) {
       console.error(err);
+      stopSession();
       setError("No se pudo acceder al micrófono o conectar.");
     }
   };
 
-  const stopSession = () => {
+  const stopSession = async () => {
     setIsActive(false);
+    setIsStarting(false);
+    setTabEnded(false);
     
-    // Cleanup Audio
-    if (processorRef.current) {
-        processorRef.current.disconnect();
-        processorRef.current = null;
-    }
-    if (sourceRef.current) {
-        sourceRef.current.disconnect();
-        sourceRef.current = null;
-    }
-    if (mediaStreamRef.current) {
-        mediaStreamRef.current.getTracks().forEach(track => track.stop());
-        mediaStreamRef.current = null;
-    }
+    // Cleanup Audio, once the final partial packet has reached the recording and the provider
+    const capture = captureRef.current;
+    captureRef.current = null;
+    if (capture) await capture.stop();
+    sourcesRef.current.forEach(source => source.disconnect());
+    sourcesRef.current = [];
+    metersRef.current = [];
+    mediaStreamsRef.current.forEach(stream => stream.getTracks().forEach(track => track.stop()));
+    mediaStreamsRef.current = [];
     if (audioContextRef.current) {
         audioContextRef.current.close();
         audioContextRef.current = null;
     }
-    if (sessionRef.current) {
-        // Assuming session object has a close method or similar if supported by SDK wrapper
-        // The SDK examples show close in callbacks, but explicit close:
-        // Currently we just stop sending data.
-        sessionRef.current = null;
+    if (managerRef.current) {
+        managerRef.current.stop();
+        managerRef.current = null;
+    }
+    setConnection(null);
+    if (recordingRef.current.length) {
+        const pcm = concatInt16(recordingRef.current);
+        recordingRef.current = [];
+        onRecordingComplete?.(new Blob([encodeWav(pcm, CAPTURE_SAMPLE_RATE)], { type: 'audio/wav' }));
     }
     if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
@@ -158,12 +234,28 @@ export const LiveSession: React.FC<Props> = ({ onTranscriptionUpdate }) => {
         ctx.fillRect(x, canvas.height - barHeight, barWidth, barHeight);
         x += barWidth + 1;
       }
+
+      // Level meter per source still being captured, in the top-left corner
+      metersRef.current.forEach(({ label, analyser: meter, data }, i) => {
+        meter.getFloatTimeDomainData(data);
+        let sum = 0;
+        for (let j = 0; j < data.length; j++) sum += data[j] * data[j];
+        const level = Math.min(1, Math.sqrt(sum / data.length) * 4);
+        const y = 6 + i * 13;
+        ctx.fillStyle = 'rgba(15, 23, 42, 0.75)';
+        ctx.fillRect(4, y, 124, 11);
+        ctx.fillStyle = '#94a3b8';
+        ctx.font = '9px sans-serif';
+        ctx.fillText(label, 7, y + 8);
+        ctx.fillStyle = i === 0 ? '#34d399' : '#fbbf24';
+        ctx.fillRect(62, y + 3, 62 * level, 5);
+      });
     };
     draw();
   };
 
   useEffect(() => {
-    return () => stopSession();
+    return () => { stopSession(); };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
@@ -183,6 +275,35 @@ export const LiveSession: React.FC<Props> = ({ onTranscriptionUpdate }) => {
         )}
       </div>
 
+      {!isActive && !isStarting && canShareTabAudio() && (
+        <div className="flex bg-slate-800 p-1 rounded-lg border border-slate-700 text-xs">
+          <button
+            onClick={() => setInputSource('mic')}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md transition-all ${inputSource === 'mic' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+          >
+            <Mic size={12} />
+            <span>Solo micrófono</span>
+          </button>
+          <button
+            onClick={() => setInputSource('mic+tab')}
+            title="Para reuniones en Meet o Teams: comparte la pestaña con audio para transcribir también a los demás"
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md transition-all ${inputSource === 'mic+tab' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+          >
+            <MonitorSpeaker size={12} />
+            <span>Micrófono + pestaña</span>
+          </button>
+        </div>
+      )}
+
+      {connection && <ConnectionBadge state={connection.state} attempt={connection.attempt} />}
+
+      {tabEnded && (
+        <div className="flex items-center gap-2 text-xs text-amber-400">
+          <MonitorSpeaker size={14} />
+          <span>Se dejó de compartir la pestaña. Solo se transcribe el micrófono.</span>
+        </div>
+      )}
+
       {error && (
         <div className="flex items-center gap-2 text-red-400 bg-red-900/20 px-4 py-2 rounded-lg border border-red-900/50">
           <AlertCircle size={16} />
@@ -192,8 +313,10 @@ export const LiveSession: React.FC<Props> = ({ onTranscriptionUpdate }) => {
 
       <button
         onClick={isActive ? stopSession : startSession}
+        disabled={isStarting}
         className={`
             flex items-center gap-2 px-8 py-3 rounded-full font-semibold shadow-lg transition-all transform hover:scale-105 active:scale-95
+            disabled:opacity-60 disabled:cursor-not-allowed disabled:hover:scale-100
             ${isActive 
                 ? 'bg-red-500 hover:bg-red-600 text-white shadow-red-500/30' 
                 : 'bg-indigo-500 hover:bg-indigo-600 text-white shadow-indigo-500/30'}
@@ -204,6 +327,11 @@ export const LiveSession: React.FC<Props> = ({ onTranscriptionUpdate }) => {
                 <MicOff size={20} />
                 <span>Detener Grabación</span>
             </>
+        ) : isStarting ? (
+            <>
+                <Loader2 size={20} className="animate-spin" />
+                <span>Conectando...</span>
+            </>
         ) : (
             <>
                 <Mic size={20} />
@@ -214,7 +342,7 @@ export const LiveSession: React.FC<Props> = ({ onTranscriptionUpdate }) => {
       
       {isActive && (
         <p className="text-sm text-slate-400 animate-pulse">
-            Escuchando y transcribiendo... (La API en vivo no separa hablantes automáticamente)
+            Escuchando y transcribiendo... Al detener podrás separar hablantes a partir de la grabación.
         </p>
       )}
     </div>
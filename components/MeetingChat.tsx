@@ -0,0 +1,113 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MessageSquare, Send, Trash2 } from 'lucide-react';
+import { ChatMessage, TranscriptSegment } from '../types';
+import { createRefResolver } from '../services/segmentRefs';
+
+interface Props {
+  messages: ChatMessage[];
+  segments: TranscriptSegment[];
+  isAnswering: boolean;
+  error?: string;
+  onAsk: (question: string) => void;
+  onClear: () => void;
+  onCitationClick: (index: number) => void;
+}
+
+const SUGGESTIONS = ['¿Qué se decidió?', '¿Quién se encargará de qué?', '¿Qué se acordó sobre el presupuesto?'];
+
+export const MeetingChat: React.FC<Props> = ({ messages, segments, isAnswering, error, onAsk, onClear, onCitationClick }) => {
+  const [question, setQuestion] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+  const resolve = useMemo(() => createRefResolver(segments), [segments]);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight, behavior: 'smooth' });
+  }, [messages.length, isAnswering]);
+
+  const submit = (text: string) => {
+    if (!text.trim() || isAnswering) return;
+    onAsk(text.trim());
+    setQuestion('');
+  };
+
+  return (
+    <section className="mb-6 bg-slate-800/60 border border-slate-700 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-slate-200">
+          <MessageSquare size={16} className="text-indigo-400" />
+          <span>Pregunta a la reunión</span>
+        </h3>
+        {messages.length > 0 && (
+          <button onClick={onClear} title="Borrar conversación" className="p-1 rounded text-slate-500 hover:text-red-400">
+            <Trash2 size={14} />
+          </button>
+        )}
+      </div>
+
+      {messages.length > 0 && (
+        <div ref={listRef} className="max-h-72 overflow-y-auto space-y-3 mb-3 pr-1">
+          {messages.map((message, i) => (
+            <div key={i} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[85%] rounded-lg px-3 py-2 text-sm leading-relaxed ${message.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-slate-900/60 text-slate-200'}`}>
+                <p className="whitespace-pre-wrap">{message.text}</p>
+                {message.citations && message.citations.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {resolve(message.citations, message.citationStarts).map(index => (
+                      <button
+                        key={index}
+                        onClick={() => onCitationClick(index)}
+                        title={`${segments[index].speaker}: ${segments[index].text}`}
+                        className="text-[10px] font-mono px-1.5 py-0.5 rounded bg-slate-800 text-indigo-400 hover:bg-indigo-900/40 hover:text-indigo-300"
+                      >
+                        {segments[index].timestamp}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+          {isAnswering && <p className="text-xs text-slate-500 animate-pulse">Pensando...</p>}
+        </div>
+      )}
+
+      {messages.length === 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {SUGGESTIONS.map(suggestion => (
+            <button
+              key={suggestion}
+              onClick={() => submit(suggestion)}
+              className="text-xs px-2 py-1 rounded-full border border-slate-700 text-slate-400 hover:border-indigo-500/50 hover:text-slate-200"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-400 mb-2">{error}</p>}
+
+      <form
+        onSubmit={e => {
+          e.preventDefault();
+          submit(question);
+        }}
+        className="flex gap-2"
+      >
+        <input
+          value={question}
+          onChange={e => setQuestion(e.target.value)}
+          placeholder="¿Qué acordamos sobre...?"
+          className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 outline-none focus:border-indigo-500/50"
+        />
+        <button
+          type="submit"
+          disabled={isAnswering || !question.trim()}
+          className="px-3 rounded-lg bg-indigo-500 hover:bg-indigo-600 text-white disabled:opacity-50"
+        >
+          <Send size={16} />
+        </button>
+      </form>
+    </section>
+  );
+};
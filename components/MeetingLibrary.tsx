@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { FileAudio, Mic, Copy, Trash2, Pencil, Plus, Library, AlertCircle } from 'lucide-react';
+import { AppMode } from '../types';
+import { MeetingSummary } from '../services/meetingStore';
+
+interface Props {
+  meetings: MeetingSummary[];
+  error?: string | null;
+  currentId?: string;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString([], { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+export const MeetingLibrary: React.FC<Props> = ({ meetings, error, currentId, onOpen, onNew, onRename, onDuplicate, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const startRename = (meeting: MeetingSummary) => {
+    setEditingId(meeting.id);
+    setDraft(meeting.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draft.trim()) onRename(editingId, draft.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <aside className="w-full lg:w-64 shrink-0">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="flex items-center gap-2 text-sm font-semibold text-slate-300">
+          <Library size={16} />
+          <span>Reuniones</span>
+        </h2>
+        <button
+          onClick={onNew}
+          title="Nueva reunión"
+          className="p-1.5 rounded-lg text-slate-400 hover:text-indigo-300 hover:bg-indigo-900/30"
+        >
+          <Plus size={16} />
+        </button>
+      </div>
+
+      {error && (
+        <p className="flex gap-2 mb-3 text-xs text-red-400 bg-red-900/20 px-3 py-2 rounded-lg border border-red-900/50">
+          <AlertCircle size={14} className="shrink-0 mt-0.5" />
+          <span>{error}</span>
+        </p>
+      )}
+
+      {meetings.length === 0 ? (
+        <p className="text-xs text-slate-500">Las reuniones que transcribas se guardarán aquí.</p>
+      ) : (
+        <ul className="space-y-1">
+          {meetings.map(meeting => (
+            <li
+              key={meeting.id}
+              className={`group rounded-lg border px-3 py-2 cursor-pointer transition-colors ${meeting.id === currentId ? 'bg-slate-800 border-indigo-500/50' : 'border-transparent hover:bg-slate-800/60'}`}
+              onClick={() => editingId !== meeting.id && onOpen(meeting.id)}
+            >
+              {editingId === meeting.id ? (
+                <input
+                  autoFocus
+                  value={draft}
+                  onChange={e => setDraft(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="w-full bg-slate-900 border border-indigo-500/50 rounded px-2 py-1 text-sm text-slate-200 outline-none"
+                />
+              ) : (
+                <div className="flex items-center gap-2">
+                  {meeting.mode === AppMode.LIVE ? <Mic size={14} className="text-indigo-400 shrink-0" /> : <FileAudio size={14} className="text-indigo-400 shrink-0" />}
+                  <span className="text-sm text-slate-200 truncate">{meeting.title}</span>
+                </div>
+              )}
+              <div className="flex items-center justify-between mt-1">
+                <span className="text-xs text-slate-500">
+                  {formatDate(meeting.createdAt)} · {meeting.segmentCount} seg.
+                </span>
+                <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity" onClick={e => e.stopPropagation()}>
+                  <button onClick={() => startRename(meeting)} title="Renombrar" className="p-1 rounded text-slate-500 hover:text-slate-200">
+                    <Pencil size={12} />
+                  </button>
+                  <button onClick={() => onDuplicate(meeting.id)} title="Duplicar" className="p-1 rounded text-slate-500 hover:text-slate-200">
+                    <Copy size={12} />
+                  </button>
+                  <button
+                    onClick={() => window.confirm(`¿Eliminar "${meeting.title}"?`) && onDelete(meeting.id)}
+                    title="Eliminar"
+                    className="p-1 rounded text-slate-500 hover:text-red-400"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+};
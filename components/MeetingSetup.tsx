@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { ChevronDown, ClipboardList, Plus, Trash2 } from 'lucide-react';
+import { MeetingPlan } from '../types';
+
+interface FormProps {
+  plan: MeetingPlan;
+  onChange: (patch: Partial<MeetingPlan>) => void;
+  // The title of an existing meeting is renamed from the library instead
+  showTitle?: boolean;
+}
+
+interface Props {
+  plan: MeetingPlan;
+  onChange: (patch: Partial<MeetingPlan>) => void;
+}
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 outline-none focus:border-indigo-500/50';
+const addButtonClass = 'flex items-center gap-1 text-xs text-indigo-400 hover:text-indigo-300 hover:bg-indigo-900/30 px-2 py-1 rounded-lg transition-colors';
+
+export const MeetingPlanForm: React.FC<FormProps> = ({ plan, onChange, showTitle = true }) => {
+  const { agenda } = plan;
+  return (
+    <div className="space-y-3">
+      {showTitle && (
+        <input
+          value={plan.title}
+          onChange={e => onChange({ title: e.target.value })}
+          placeholder="Título de la reunión"
+          className={`${inputClass} w-full`}
+        />
+      )}
+      <input
+        value={plan.attendees.join(',')}
+        onChange={e => onChange({ attendees: e.target.value.split(',') })}
+        placeholder="Asistentes (separados por comas)"
+        className={`${inputClass} w-full`}
+      />
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-xs uppercase tracking-wide font-semibold text-slate-400">Agenda</h4>
+          <button
+            onClick={() => onChange({ agenda: [...agenda, { id: crypto.randomUUID(), title: '' }] })}
+            className={addButtonClass}
+          >
+            <Plus size={12} />
+            <span>Añadir punto</span>
+          </button>
+        </div>
+        <ol className="space-y-2">
+          {agenda.map((item, i) => (
+            <li key={item.id} className="flex items-center gap-2">
+              <span className="w-5 text-right text-xs text-slate-500">{i + 1}.</span>
+              <input
+                value={item.title}
+                onChange={e => onChange({ agenda: agenda.map(a => (a.id === item.id ? { ...a, title: e.target.value } : a)) })}
+                placeholder="Punto a tratar"
+                className={`${inputClass} flex-1`}
+              />
+              <button
+                onClick={() => onChange({ agenda: agenda.filter(a => a.id !== item.id) })}
+                title="Eliminar"
+                className="p-1 rounded text-slate-500 hover:text-red-400 hover:bg-red-900/20"
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Title, attendees and agenda for the next meeting, filled in before uploading
+ * a file or going live.
+ */
+export const MeetingSetup: React.FC<Props> = ({ plan, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const items = plan.agenda.filter(item => item.title.trim()).length;
+
+  return (
+    <section className="mb-6 bg-slate-800/40 border border-slate-700 rounded-lg p-4">
+      <button onClick={() => setIsOpen(open => !open)} className="flex items-center gap-2 text-sm font-semibold text-slate-300">
+        <ClipboardList size={16} className="text-indigo-400" />
+        <span>Preparar reunión</span>
+        <span className="text-xs font-normal text-slate-500">
+          {plan.title.trim() || 'Sin título'} · {items} puntos en la agenda
+        </span>
+        <ChevronDown size={14} className={`text-slate-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="mt-4">
+          <MeetingPlanForm plan={plan} onChange={onChange} />
+        </div>
+      )}
+    </section>
+  );
+};
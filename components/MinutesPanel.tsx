@@ -0,0 +1,120 @@
+import React, { useMemo } from 'react';
+import { Sparkles, ListChecks, Gavel, Tags, RefreshCw, User, CalendarClock } from 'lucide-react';
+import { MeetingMinutes, MinutesItem, TranscriptSegment } from '../types';
+import { createRefResolver } from '../services/segmentRefs';
+
+interface Props {
+  minutes?: MeetingMinutes;
+  segments: TranscriptSegment[];
+  isGenerating: boolean;
+  error?: string;
+  onGenerate: () => void;
+  onSegmentClick: (index: number) => void;
+}
+
+const SegmentRefs: React.FC<{ indices: number[]; segments: TranscriptSegment[]; onClick: (index: number) => void }> = ({ indices, segments, onClick }) => (
+  <span className="inline-flex flex-wrap gap-1 ml-2 align-middle">
+    {indices.map(i => (
+      <button
+        key={i}
+        onClick={() => onClick(i)}
+        title={segments[i].text}
+        className="text-[10px] font-mono px-1.5 py-0.5 rounded bg-slate-900 text-indigo-400 hover:bg-indigo-900/40 hover:text-indigo-300"
+      >
+        {segments[i].timestamp}
+      </button>
+    ))}
+  </span>
+);
+
+export const MinutesPanel: React.FC<Props> = ({ minutes, segments, isGenerating, error, onGenerate, onSegmentClick }) => {
+  const resolve = useMemo(() => createRefResolver(segments), [segments]);
+  const refs = (item: MinutesItem) => (
+    <SegmentRefs indices={resolve(item.segmentIndices, item.segmentStarts)} segments={segments} onClick={onSegmentClick} />
+  );
+
+  return (
+    <section className="mb-6 bg-slate-800/60 border border-slate-700 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-slate-200">
+          <Sparkles size={16} className="text-indigo-400" />
+          <span>Acta de la reunión</span>
+        </h3>
+        <button
+          onClick={onGenerate}
+          disabled={isGenerating || segments.length === 0}
+          className="flex items-center gap-2 text-xs text-indigo-400 hover:text-indigo-300 hover:bg-indigo-900/30 px-2 py-1 rounded-lg transition-colors disabled:opacity-50"
+        >
+          <RefreshCw size={12} className={isGenerating ? 'animate-spin' : ''} />
+          <span>{isGenerating ? 'Generando...' : minutes ? 'Regenerar' : 'Generar acta'}</span>
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-2">{error}</p>}
+
+      {!minutes && !isGenerating && !error && (
+        <p className="text-sm text-slate-500">Genera un resumen, las decisiones y las tareas a partir de la transcripción.</p>
+      )}
+
+      {minutes && (
+        <div className="space-y-4 text-sm text-slate-300">
+          <p className="leading-relaxed">{minutes.summary}</p>
+
+          {minutes.topics.length > 0 && (
+            <div>
+              <h4 className="flex items-center gap-2 text-xs uppercase tracking-wide font-semibold text-slate-400 mb-1">
+                <Tags size={12} /> Temas
+              </h4>
+              <ul className="space-y-1">
+                {minutes.topics.map((topic, i) => (
+                  <li key={i}>
+                    <span className="font-medium text-slate-200">{topic.title}:</span> {topic.description}
+                    {refs(topic)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {minutes.decisions.length > 0 && (
+            <div>
+              <h4 className="flex items-center gap-2 text-xs uppercase tracking-wide font-semibold text-slate-400 mb-1">
+                <Gavel size={12} /> Decisiones
+              </h4>
+              <ul className="list-disc list-inside space-y-1">
+                {minutes.decisions.map((decision, i) => (
+                  <li key={i}>
+                    {decision.description}
+                    {refs(decision)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {minutes.actionItems.length > 0 && (
+            <div>
+              <h4 className="flex items-center gap-2 text-xs uppercase tracking-wide font-semibold text-slate-400 mb-1">
+                <ListChecks size={12} /> Tareas
+              </h4>
+              <ul className="space-y-2">
+                {minutes.actionItems.map((item, i) => (
+                  <li key={i} className="bg-slate-900/40 rounded p-2">
+                    <div>
+                      {item.description}
+                      {refs(item)}
+                    </div>
+                    <div className="flex flex-wrap gap-3 mt-1 text-xs text-slate-500">
+                      <span className="flex items-center gap-1"><User size={11} /> {item.owner || 'Sin responsable'}</span>
+                      <span className="flex items-center gap-1"><CalendarClock size={11} /> {item.dueDate || 'Sin fecha'}</span>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { PreprocessFormat, PreprocessOptions } from '../services/audioPreprocessing';
+
+interface Props {
+  settings: PreprocessOptions;
+  onChange: (patch: Partial<PreprocessOptions>) => void;
+  disabled?: boolean;
+}
+
+const FORMAT_LABELS: Record<PreprocessFormat, string> = {
+  opus: 'Opus (más ligero)',
+  wav: 'WAV (sin pérdida)',
+};
+
+export const PreprocessSettings: React.FC<Props> = ({ settings, onChange, disabled }) => (
+  <div className="flex flex-wrap items-center gap-3 -mt-3 mb-6 text-sm text-slate-400">
+    <SlidersHorizontal size={16} className="text-indigo-400" />
+    <label className="flex items-center gap-2" title="Extrae el audio, lo pasa a mono 16 kHz y normaliza el volumen antes de enviarlo">
+      <input
+        type="checkbox"
+        checked={settings.enabled}
+        disabled={disabled}
+        onChange={e => onChange({ enabled: e.target.checked })}
+        className="accent-indigo-500"
+      />
+      <span>Optimizar audio antes de subir</span>
+    </label>
+    {settings.enabled && (
+      <>
+        <label className="flex items-center gap-2">
+          <span>Formato</span>
+          <select
+            value={settings.format}
+            disabled={disabled}
+            onChange={e => onChange({ format: e.target.value as PreprocessFormat })}
+            className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-slate-200 outline-none focus:border-indigo-500/50 disabled:opacity-50"
+          >
+            {(Object.keys(FORMAT_LABELS) as PreprocessFormat[]).map(format => (
+              <option key={format} value={format}>{FORMAT_LABELS[format]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2" title="Las marcas de tiempo siguen correspondiendo al archivo original">
+          <input
+            type="checkbox"
+            checked={settings.trimSilence}
+            disabled={disabled}
+            onChange={e => onChange({ trimSilence: e.target.checked })}
+            className="accent-indigo-500"
+          />
+          <span>Recortar silencios al inicio y al final</span>
+        </label>
+      </>
+    )}
+  </div>
+);
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { ChevronDown, Download, Plus, ScanSearch, ShieldCheck, X } from 'lucide-react';
+import { NamedEntity } from '../types';
+import { PII_CATEGORY_LABELS, RedactionState, restoreText } from '../services/redaction';
+
+interface Props {
+  redaction: RedactionState;
+  onChange: (redaction: RedactionState) => void;
+  // Model-based detection of names and organizations; hidden when the provider lacks it
+  onDetect?: () => void;
+  isDetecting: boolean;
+  error?: string;
+  onExportMap: () => void;
+}
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 outline-none focus:border-indigo-500/50';
+const actionButtonClass = 'flex items-center gap-1 text-xs text-indigo-400 hover:text-indigo-300 hover:bg-indigo-900/30 px-2 py-1 rounded-lg transition-colors disabled:opacity-50';
+
+export const RedactionPanel: React.FC<Props> = ({ redaction, onChange, onDetect, isDetecting, error, onExportMap }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState<NamedEntity['category']>('PERSONA');
+  const [redactedText, setRedactedText] = useState('');
+  const { entities, entries } = redaction;
+
+  const addEntity = () => {
+    const text = name.trim();
+    if (!text || entities.some(e => e.text.toLowerCase() === text.toLowerCase())) return;
+    onChange({ ...redaction, entities: [...entities, { text, category }] });
+    setName('');
+  };
+
+  return (
+    <section className="mb-6 bg-slate-800/60 border border-slate-700 rounded-lg p-4">
+      <button onClick={() => setIsOpen(open => !open)} className="flex items-center gap-2 text-sm font-semibold text-slate-200">
+        <ShieldCheck size={16} className="text-indigo-400" />
+        <span>Datos personales</span>
+        <span className="text-xs font-normal text-slate-500">{entries.length} marcadores</span>
+        <ChevronDown size={14} className={`text-slate-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-5">
+          <p className="text-xs text-slate-500">
+            Correos, teléfonos, DNI/NIE e IBAN se detectan automáticamente. Los nombres de personas y organizaciones
+            se añaden a mano o con la detección del modelo. La tabla de correspondencias se guarda solo en este navegador.
+          </p>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-xs uppercase tracking-wide font-semibold text-slate-400">Nombres a ocultar</h4>
+              {onDetect && (
+                <button onClick={onDetect} disabled={isDetecting} className={actionButtonClass}>
+                  <ScanSearch size={12} className={isDetecting ? 'animate-pulse' : ''} />
+                  <span>{isDetecting ? 'Detectando...' : 'Detectar nombres con el modelo'}</span>
+                </button>
+              )}
+            </div>
+            {error && <p className="text-xs text-red-400 mb-2">{error}</p>}
+            <div className="flex flex-wrap gap-2 mb-2">
+              {entities.map(entity => (
+                <span key={entity.text} className="flex items-center gap-1 text-xs bg-slate-900/60 text-slate-300 rounded px-2 py-1">
+                  <span className="text-slate-500">{PII_CATEGORY_LABELS[entity.category]}:</span>
+                  <span>{entity.text}</span>
+                  <button
+                    onClick={() => onChange({ ...redaction, entities: entities.filter(e => e !== entity) })}
+                    title="Dejar de ocultar"
+                    className="text-slate-500 hover:text-red-400"
+                  >
+                    <X size={12} />
+                  </button>
+                </span>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                value={name}
+                onChange={e => setName(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && addEntity()}
+                placeholder="Nombre tal como aparece"
+                className={`${inputClass} w-56`}
+              />
+              <select value={category} onChange={e => setCategory(e.target.value as NamedEntity['category'])} className={inputClass}>
+                <option value="PERSONA">Persona</option>
+                <option value="ORGANIZACION">Organización</option>
+              </select>
+              <button onClick={addEntity} disabled={!name.trim()} className={actionButtonClass}>
+                <Plus size={12} />
+                <span>Añadir</span>
+              </button>
+            </div>
+          </div>
+
+          {entries.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-xs uppercase tracking-wide font-semibold text-slate-400">Correspondencias</h4>
+                <button onClick={onExportMap} className={actionButtonClass}>
+                  <Download size={12} />
+                  <span>Exportar CSV</span>
+                </button>
+              </div>
+              <ul className="max-h-48 overflow-y-auto pr-1 space-y-1">
+                {entries.map(entry => (
+                  <li key={entry.placeholder} className="flex items-center gap-3 text-xs">
+                    <span className="font-mono text-indigo-300 w-36 shrink-0">{entry.placeholder}</span>
+                    <span className="text-slate-300 truncate">{entry.value}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {entries.length > 0 && (
+            <div>
+              <h4 className="text-xs uppercase tracking-wide font-semibold text-slate-400 mb-2">Revertir texto anonimizado</h4>
+              <textarea
+                value={redactedText}
+                onChange={e => setRedactedText(e.target.value)}
+                placeholder="Pega aquí un fragmento con marcadores como [PERSONA_1]"
+                rows={2}
+                className={`${inputClass} w-full resize-y`}
+              />
+              {redactedText && (
+                <p className="mt-2 text-sm text-slate-300 whitespace-pre-wrap bg-slate-900/60 rounded px-2 py-1.5">
+                  {restoreText(redactedText, entries)}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
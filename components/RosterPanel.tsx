@@ -0,0 +1,182 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Loader2, Mic, Square, Trash2, Upload, UserPlus, Users } from 'lucide-react';
+import { TranscriptSegment } from '../types';
+import { RosterSpeaker } from '../services/rosterStore';
+import { MAX_SAMPLE_SECONDS } from '../services/speakerRoster';
+
+interface Props {
+  speakers: RosterSpeaker[];
+  onAdd: (fields: Pick<RosterSpeaker, 'name' | 'gender'>, clip: Blob) => Promise<void>;
+  onUpdate: (id: string, patch: Partial<Pick<RosterSpeaker, 'name' | 'gender' | 'enabled'>>) => void;
+  onRemove: (id: string) => void;
+}
+
+const GENDERS: TranscriptSegment['gender'][] = ['Desconocido', 'Femenino', 'Masculino'];
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 outline-none focus:border-indigo-500/50';
+const actionButtonClass = 'flex items-center gap-1 text-xs text-indigo-400 hover:text-indigo-300 hover:bg-indigo-900/30 px-2 py-1 rounded-lg transition-colors disabled:opacity-50';
+
+const SamplePlayer: React.FC<{ sample: Blob }> = ({ sample }) => {
+  const [url, setUrl] = useState<string>();
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(sample);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [sample]);
+  return <audio src={url} controls className="h-8 w-56" />;
+};
+
+export const RosterPanel: React.FC<Props> = ({ speakers, onAdd, onUpdate, onRemove }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [gender, setGender] = useState<TranscriptSegment['gender']>('Desconocido');
+  const [isRecording, setIsRecording] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Release the microphone if the panel goes away mid-recording
+  useEffect(() => () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorder.onstop = null;
+    recorder.stop();
+    recorder.stream.getTracks().forEach(track => track.stop());
+  }, []);
+
+  const enroll = async (clip: Blob) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onAdd({ name: name.trim(), gender }, clip);
+      setName('');
+      setGender('Desconocido');
+    } catch (err) {
+      console.error("No se pudo registrar la muestra de voz:", err);
+      setError("No se pudo leer la muestra de voz. Prueba con otro archivo.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startRecording = async () => {
+    setError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = e => chunks.push(e.data);
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        recorderRef.current = null;
+        setIsRecording(false);
+        enroll(new Blob(chunks, { type: recorder.mimeType }));
+      };
+      recorder.start();
+      recorderRef.current = recorder;
+      setIsRecording(true);
+    } catch (err) {
+      console.error("No se pudo acceder al micrófono:", err);
+      setError("No se pudo acceder al micrófono.");
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) enroll(file);
+  };
+
+  const canEnroll = name.trim() !== '' && !isSaving;
+
+  return (
+    <section className="mb-6 bg-slate-800/40 border border-slate-700 rounded-lg p-4">
+      <button onClick={() => setIsOpen(open => !open)} className="flex items-center gap-2 text-sm font-semibold text-slate-300">
+        <Users size={16} className="text-indigo-400" />
+        <span>Hablantes conocidos</span>
+        <span className="text-xs font-normal text-slate-500">
+          {speakers.filter(s => s.enabled).length} de {speakers.length} activos
+        </span>
+        <ChevronDown size={14} className={`text-slate-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <p className="text-xs text-slate-500">
+            Las muestras de voz de los hablantes activos se envían con cada archivo para poner nombre a las voces.
+            Si la identificación no es fiable se mantiene «Hablante N». Se usan como máximo {MAX_SAMPLE_SECONDS} s de cada muestra.
+          </p>
+
+          <ul className="space-y-2">
+            {speakers.map(speaker => (
+              <li key={speaker.id} className="flex flex-wrap items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={speaker.enabled}
+                  onChange={e => onUpdate(speaker.id, { enabled: e.target.checked })}
+                  title="Activo"
+                  className="accent-indigo-500"
+                />
+                <input
+                  defaultValue={speaker.name}
+                  onBlur={e => e.target.value.trim() && e.target.value !== speaker.name && onUpdate(speaker.id, { name: e.target.value.trim() })}
+                  className={`${inputClass} w-44`}
+                />
+                <select
+                  value={speaker.gender}
+                  onChange={e => onUpdate(speaker.id, { gender: e.target.value as TranscriptSegment['gender'] })}
+                  className={inputClass}
+                >
+                  {GENDERS.map(g => <option key={g} value={g}>{g}</option>)}
+                </select>
+                <SamplePlayer sample={speaker.sample} />
+                <span className="text-xs text-slate-500">{speaker.sampleDuration.toFixed(1)} s</span>
+                <button
+                  onClick={() => onRemove(speaker.id)}
+                  title="Eliminar"
+                  className="p-1 rounded text-slate-500 hover:text-red-400 hover:bg-red-900/20"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-slate-700/60">
+            <UserPlus size={14} className="text-slate-500" />
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="Nombre"
+              className={`${inputClass} w-44`}
+            />
+            <select value={gender} onChange={e => setGender(e.target.value as TranscriptSegment['gender'])} className={inputClass}>
+              {GENDERS.map(g => <option key={g} value={g}>{g}</option>)}
+            </select>
+            {isRecording ? (
+              <button onClick={() => recorderRef.current?.stop()} className={actionButtonClass}>
+                <Square size={12} className="text-red-400" />
+                <span>Detener grabación</span>
+              </button>
+            ) : (
+              <>
+                <button onClick={startRecording} disabled={!canEnroll} className={actionButtonClass}>
+                  <Mic size={12} />
+                  <span>Grabar muestra</span>
+                </button>
+                <button onClick={() => fileInputRef.current?.click()} disabled={!canEnroll} className={actionButtonClass}>
+                  <Upload size={12} />
+                  <span>Subir muestra</span>
+                </button>
+              </>
+            )}
+            {isSaving && <Loader2 size={14} className="animate-spin text-indigo-400" />}
+            <input ref={fileInputRef} type="file" accept="audio/*,video/*" onChange={handleFile} className="hidden" />
+          </div>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart3, ChevronDown, Download, Info } from 'lucide-react';
+import { TranscriptSegment } from '../types';
+import { MeetingAnalytics, computeSpeakerAnalytics } from '../services/speakerAnalytics';
+import { formatTimestamp } from '../services/timeUtils';
+
+interface Props {
+  segments: TranscriptSegment[];
+  onSegmentClick: (index: number) => void;
+  // The CSV is built by the caller, which anonymizes it whatever `segments` shows
+  onExport: () => void;
+}
+
+// Lane colors, reused in order when there are more speakers
+const LANE_COLORS = ['#818cf8', '#34d399', '#fbbf24', '#f472b6', '#38bdf8', '#a78bfa', '#fb923c', '#94a3b8'];
+
+const LANE_HEIGHT = 22;
+const LABEL_WIDTH = 120;
+const CHART_WIDTH = 640;
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+const seconds = (value: number) => (value >= 60 ? formatTimestamp(value) : `${value.toFixed(1)} s`);
+
+const Figure: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-slate-900/60 rounded-lg px-3 py-2" title={hint}>
+    <p className="text-[10px] uppercase tracking-wide text-slate-500">{label}</p>
+    <p className="text-lg font-semibold text-slate-200">{value}</p>
+  </div>
+);
+
+const Timeline: React.FC<{ analytics: MeetingAnalytics; onSegmentClick: (index: number) => void }> = ({ analytics, onSegmentClick }) => {
+  const scale = (CHART_WIDTH - LABEL_WIDTH) / Math.max(analytics.duration, 1);
+  const height = analytics.lanes.length * LANE_HEIGHT;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${height + 16}`} className="w-full" role="img" aria-label="Línea de tiempo por hablante">
+      {analytics.lanes.map(({ speaker, intervals }, lane) => {
+        const y = lane * LANE_HEIGHT;
+        const color = LANE_COLORS[lane % LANE_COLORS.length];
+        return (
+          <g key={speaker}>
+            <text x={0} y={y + LANE_HEIGHT / 2 + 4} className="fill-slate-400" fontSize={11}>
+              {speaker.length > 16 ? `${speaker.slice(0, 15)}…` : speaker}
+            </text>
+            <rect x={LABEL_WIDTH} y={y + 3} width={CHART_WIDTH - LABEL_WIDTH} height={LANE_HEIGHT - 6} className="fill-slate-900/60" rx={3} />
+            {intervals.map(interval => (
+              <rect
+                key={interval.index}
+                x={LABEL_WIDTH + interval.start * scale}
+                y={y + 3}
+                // Keep very short turns visible
+                width={Math.max(1.5, (interval.end - interval.start) * scale)}
+                height={LANE_HEIGHT - 6}
+                fill={color}
+                rx={2}
+                className="cursor-pointer opacity-80 hover:opacity-100"
+                onClick={() => onSegmentClick(interval.index)}
+              >
+                <title>{`${speaker} · ${formatTimestamp(interval.start)}–${formatTimestamp(interval.end)}`}</title>
+              </rect>
+            ))}
+          </g>
+        );
+      })}
+      <text x={LABEL_WIDTH} y={height + 12} className="fill-slate-500" fontSize={10}>00:00</text>
+      <text x={CHART_WIDTH} y={height + 12} textAnchor="end" className="fill-slate-500" fontSize={10}>
+        {formatTimestamp(analytics.duration)}
+      </text>
+    </svg>
+  );
+};
+
+export const SpeakerAnalytics: React.FC<Props> = ({ segments, onSegmentClick, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // Only computed while the panel is open
+  const analytics = useMemo(() => (isOpen ? computeSpeakerAnalytics(segments) : null), [isOpen, segments]);
+
+  return (
+    <section className="mb-6 bg-slate-800/60 border border-slate-700 rounded-lg p-4">
+      <div className="flex items-center justify-between">
+        <button onClick={() => setIsOpen(open => !open)} className="flex items-center gap-2 text-sm font-semibold text-slate-200">
+          <BarChart3 size={16} className="text-indigo-400" />
+          <span>Análisis de participación</span>
+          <ChevronDown size={14} className={`text-slate-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </button>
+        {analytics && (
+          <button
+            onClick={onExport}
+            className="flex items-center gap-2 text-xs text-indigo-400 hover:text-indigo-300 hover:bg-indigo-900/30 px-2 py-1 rounded-lg transition-colors"
+          >
+            <Download size={12} />
+            <span>Exportar CSV</span>
+          </button>
+        )}
+      </div>
+
+      {analytics && (
+        <div className="mt-4 space-y-4">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            <Figure label="Duración" value={formatTimestamp(analytics.duration)} />
+            <Figure label="Silencio" value={percent(analytics.silenceRatio)} hint="Parte de la reunión en la que nadie habla" />
+            <Figure label="Solapamiento" value={seconds(analytics.overlapTime)} hint="Tiempo con dos o más personas hablando a la vez" />
+            <Figure label="Interrupciones" value={String(analytics.interruptions)} hint="Turnos que empiezan antes de que termine el anterior" />
+          </div>
+
+          {!analytics.hasEndTimes && (
+            <p className="flex items-center gap-2 text-xs text-slate-500">
+              <Info size={12} className="shrink-0" />
+              <span>La transcripción no tiene marcas de fin: la duración de cada intervención es estimada y no se detectan solapamientos.</span>
+            </p>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-[10px] uppercase tracking-wide text-slate-500">
+                  <th className="py-1 pr-3 font-semibold">Hablante</th>
+                  <th className="py-1 pr-3 font-semibold">Tiempo de habla</th>
+                  <th className="py-1 pr-3 font-semibold text-right">Turnos</th>
+                  <th className="py-1 pr-3 font-semibold text-right">Turno medio</th>
+                  <th className="py-1 pr-3 font-semibold text-right">Pal./min</th>
+                  <th className="py-1 font-semibold text-right" title="Hechas / recibidas">Interrupciones</th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-300">
+                {analytics.speakers.map(s => (
+                  <tr key={s.speaker} className="border-t border-slate-700/60">
+                    <td className="py-1.5 pr-3 font-medium text-slate-200 truncate max-w-[10rem]">{s.speaker}</td>
+                    <td className="py-1.5 pr-3">
+                      <div className="flex items-center gap-2">
+                        <div className="w-24 h-1.5 bg-slate-900 rounded-full overflow-hidden">
+                          <div className="h-full bg-indigo-500" style={{ width: percent(s.share) }} />
+                        </div>
+                        <span className="text-xs text-slate-400">{percent(s.share)} · {seconds(s.talkTime)}</span>
+                      </div>
+                    </td>
+                    <td className="py-1.5 pr-3 text-right">{s.turns}</td>
+                    <td className="py-1.5 pr-3 text-right">{seconds(s.averageTurn)}</td>
+                    <td className="py-1.5 pr-3 text-right">{Math.round(s.wordsPerMinute)}</td>
+                    <td className="py-1.5 text-right">{s.interruptionsMade} / {s.interruptionsReceived}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <Timeline analytics={analytics} onSegmentClick={onSegmentClick} />
+        </div>
+      )}
+    </section>
+  );
+};
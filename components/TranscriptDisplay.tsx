@@ -1,13 +1,274 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { TranscriptSegment } from '../types';
-import { User, Clock, Mic } from 'lucide-react';
+import { User, Clock, Mic, Scissors, Merge, Trash2, Pencil, Check, AlertTriangle, ChevronDown, Play } from 'lucide-react';
+import { TranscriptEdit } from '../services/transcriptEditing';
+import { TranscriptSection } from '../services/agenda';
+import { parseTimestamp } from '../services/timeUtils';
 
 interface Props {
   segments: TranscriptSegment[];
   isLoading?: boolean;
+  // When provided, segments become editable and every change is reported as an edit
+  onEdit?: (edit: TranscriptEdit) => void;
+  // Segment currently being played back
+  activeIndex?: number;
+  // When provided, clicking a segment seeks the recording to it
+  onSeek?: (index: number) => void;
+  // Scroll to and briefly highlight a segment (e.g. from a minutes reference). A new
+  // object re-triggers the scroll even for the same index.
+  focusRequest?: { index: number };
+  // Group the segments under collapsible agenda headers; must cover the transcript in order
+  sections?: TranscriptSection[];
 }
 
-export const TranscriptDisplay: React.FC<Props> = ({ segments, isLoading }) => {
+const isInteractive = (target: EventTarget) =>
+  target instanceof HTMLElement && !!target.closest('input, textarea, select, button');
+
+const NEW_SPEAKER = '__new__';
+
+const LanguageBadge: React.FC<{ language: string }> = ({ language }) => (
+  <span title="Idioma" className="text-slate-500 bg-slate-900/50 px-2 py-1 rounded">{language}</span>
+);
+
+const Translation: React.FC<{ text: string }> = ({ text }) => (
+  <p className="mt-2 pl-3 border-l-2 border-indigo-500/40 text-sm text-slate-400 italic leading-relaxed whitespace-pre-wrap">{text}</p>
+);
+
+const genderBadgeClass = (gender: TranscriptSegment['gender']) =>
+  gender === 'Masculino' ? 'bg-blue-900/30 text-blue-400' : gender === 'Femenino' ? 'bg-pink-900/30 text-pink-400' : 'bg-slate-700 text-slate-300';
+
+const SectionHeader: React.FC<{
+  section: TranscriptSection;
+  segments: TranscriptSegment[];
+  isCollapsed: boolean;
+  onToggle: () => void;
+}> = ({ section, segments, isCollapsed, onToggle }) => {
+  const count = section.lastIndex - section.firstIndex + 1;
+  return (
+    <button
+      onClick={onToggle}
+      className="w-full flex flex-wrap items-center gap-3 border-b border-slate-700 pb-2 text-left text-sm font-semibold text-slate-200 hover:text-white"
+    >
+      <ChevronDown size={16} className={`text-slate-500 transition-transform ${isCollapsed ? '-rotate-90' : ''}`} />
+      <span>{section.title}</span>
+      {section.offAgenda && <span className="text-xs font-normal text-amber-400 bg-amber-900/30 px-2 py-0.5 rounded">Fuera de la agenda</span>}
+      <span className="ml-auto text-xs font-normal text-slate-500">
+        {segments[section.firstIndex]?.timestamp} – {segments[section.lastIndex]?.timestamp} · {count} {count === 1 ? 'segmento' : 'segmentos'}
+      </span>
+    </button>
+  );
+};
+
+const SpeakerChip: React.FC<{ speaker: string; onRename: (to: string) => void }> = ({ speaker, onRename }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(speaker);
+
+  useEffect(() => setDraft(speaker), [speaker]);
+
+  const commit = () => {
+    setIsEditing(false);
+    if (draft.trim() && draft.trim() !== speaker) onRename(draft.trim());
+    else setDraft(speaker);
+  };
+
+  if (isEditing) {
+    return (
+      <span className="flex items-center gap-1 bg-slate-900 border border-indigo-500/50 rounded px-2 py-1">
+        <input
+          autoFocus
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={e => {
+            if (e.key === 'Enter') commit();
+            if (e.key === 'Escape') {
+              setDraft(speaker);
+              setIsEditing(false);
+            }
+          }}
+          className="bg-transparent text-xs text-slate-200 outline-none w-28"
+        />
+        <Check size={12} className="text-indigo-400" />
+      </span>
+    );
+  }
+
+  return (
+    <button
+      onClick={() => setIsEditing(true)}
+      title="Renombrar en toda la transcripción"
+      className="flex items-center gap-1 bg-slate-800 border border-slate-700 hover:border-indigo-500/50 rounded px-2 py-1 text-xs text-slate-300"
+    >
+      <span>{speaker}</span>
+      <Pencil size={10} className="opacity-60" />
+    </button>
+  );
+};
+
+interface SegmentEditorProps {
+  segment: TranscriptSegment;
+  index: number;
+  speakers: string[];
+  isLast: boolean;
+  onEdit: (edit: TranscriptEdit) => void;
+  // The text is a textarea here, so clicking it edits instead of seeking
+  onSeek?: () => void;
+}
+
+const SegmentEditor: React.FC<SegmentEditorProps> = ({ segment, index, speakers, isLast, onEdit, onSeek }) => {
+  const [text, setText] = useState(segment.text);
+  const [timestamp, setTimestamp] = useState(segment.timestamp);
+  const textRef = useRef<HTMLTextAreaElement>(null);
+
+  // Keep drafts in sync with undo/redo and external changes
+  useEffect(() => setText(segment.text), [segment.text]);
+  useEffect(() => setTimestamp(segment.timestamp), [segment.timestamp]);
+
+  useEffect(() => {
+    const el = textRef.current;
+    if (!el) return;
+    el.style.height = 'auto';
+    el.style.height = `${el.scrollHeight}px`;
+  }, [text]);
+
+  const commitTimestamp = () => {
+    if (Number.isNaN(parseTimestamp(timestamp))) setTimestamp(segment.timestamp);
+    else onEdit({ type: 'updateTimestamp', index, timestamp });
+  };
+
+  const handleSpeakerChange = (value: string) => {
+    if (value === NEW_SPEAKER) {
+      const name = window.prompt('Nombre del nuevo hablante', `Hablante ${speakers.length + 1}`);
+      if (name) onEdit({ type: 'reassignSpeaker', index, speaker: name });
+      return;
+    }
+    onEdit({ type: 'reassignSpeaker', index, speaker: value });
+  };
+
+  const handleSplit = () => {
+    // Flush pending text first so the split happens on what the user sees
+    const position = textRef.current?.selectionStart ?? 0;
+    if (text !== segment.text) onEdit({ type: 'updateText', index, text });
+    onEdit({ type: 'split', index, position });
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-3 text-xs uppercase tracking-wide font-semibold text-slate-400 mb-2">
+        <div className={`flex items-center gap-1 px-2 py-1 rounded ${genderBadgeClass(segment.gender)}`}>
+          <User size={12} />
+          <select
+            value={segment.speaker}
+            onChange={e => handleSpeakerChange(e.target.value)}
+            className="bg-transparent uppercase font-semibold outline-none cursor-pointer"
+          >
+            {speakers.map(s => (
+              <option key={s} value={s} className="bg-slate-800 normal-case">{s}</option>
+            ))}
+            <option value={NEW_SPEAKER} className="bg-slate-800 normal-case">+ Nuevo hablante…</option>
+          </select>
+          {segment.gender !== 'Desconocido' && <span className="opacity-75">({segment.gender})</span>}
+        </div>
+        <div className="flex items-center gap-1 text-slate-500 bg-slate-900/50 px-2 py-1 rounded">
+          {onSeek ? (
+            <button onClick={onSeek} title="Reproducir desde aquí" className="hover:text-indigo-300">
+              <Play size={12} />
+            </button>
+          ) : (
+            <Clock size={12} />
+          )}
+          <input
+            value={timestamp}
+            onChange={e => setTimestamp(e.target.value)}
+            onBlur={commitTimestamp}
+            onKeyDown={e => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+            className="bg-transparent outline-none w-16"
+          />
+        </div>
+        {segment.language && <LanguageBadge language={segment.language} />}
+        <div className="ml-auto flex items-center gap-1 normal-case">
+          <button onClick={handleSplit} title="Dividir en el cursor" className="p-1 rounded hover:bg-slate-700 hover:text-slate-200">
+            <Scissors size={14} />
+          </button>
+          <button
+            onClick={() => onEdit({ type: 'mergeWithNext', index })}
+            disabled={isLast}
+            title="Unir con el siguiente"
+            className="p-1 rounded hover:bg-slate-700 hover:text-slate-200 disabled:opacity-30 disabled:hover:bg-transparent"
+          >
+            <Merge size={14} />
+          </button>
+          <button onClick={() => onEdit({ type: 'delete', index })} title="Eliminar segmento" className="p-1 rounded hover:bg-red-900/30 hover:text-red-400">
+            <Trash2 size={14} />
+          </button>
+        </div>
+      </div>
+      <textarea
+        ref={textRef}
+        value={text}
+        rows={1}
+        onChange={e => setText(e.target.value)}
+        onBlur={() => onEdit({ type: 'updateText', index, text })}
+        className="w-full bg-transparent text-slate-200 leading-relaxed resize-none outline-none focus:bg-slate-900/40 rounded -mx-1 px-1"
+      />
+      {segment.translation && <Translation text={segment.translation} />}
+    </>
+  );
+};
+
+export const TranscriptDisplay: React.FC<Props> = ({ segments, isLoading, onEdit, activeIndex, onSeek, focusRequest, sections }) => {
+  const segmentRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [flashIndex, setFlashIndex] = useState<number>();
+  // Sections are keyed by their first segment
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+  // Segment to scroll to once its section has been expanded
+  const pendingScroll = useRef<number>();
+
+  const toggleSection = (key: number) => setCollapsed(prev => {
+    const next = new Set(prev);
+    if (!next.delete(key)) next.add(key);
+    return next;
+  });
+
+  // Expand the section holding a segment and scroll to it, now or after the next render
+  const reveal = (index: number) => {
+    const section = sections?.find(s => index >= s.firstIndex && index <= s.lastIndex);
+    if (section) {
+      setCollapsed(prev => {
+        if (!prev.has(section.firstIndex)) return prev;
+        const next = new Set(prev);
+        next.delete(section.firstIndex);
+        return next;
+      });
+    }
+    const el = segmentRefs.current[index];
+    if (el) el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    else pendingScroll.current = index;
+  };
+
+  useEffect(() => {
+    if (pendingScroll.current === undefined) return;
+    segmentRefs.current[pendingScroll.current]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    pendingScroll.current = undefined;
+  });
+
+  useEffect(() => {
+    if (!focusRequest) return;
+    reveal(focusRequest.index);
+    setFlashIndex(focusRequest.index);
+    const timer = setTimeout(() => setFlashIndex(undefined), 1500);
+    return () => clearTimeout(timer);
+  }, [focusRequest]);
+
+  // Follow playback, unless the user is typing somewhere in the transcript
+  useEffect(() => {
+    if (activeIndex === undefined) return;
+    const el = segmentRefs.current[activeIndex];
+    const focused = document.activeElement;
+    if (el && focused?.matches('input, textarea') && el.parentElement?.contains(focused)) return;
+    reveal(activeIndex);
+  }, [activeIndex]);
+
   if (!segments.length && !isLoading) {
     return (
       <div className="text-center py-12 text-slate-500 border-2 border-dashed border-slate-700 rounded-lg bg-slate-800/50">
@@ -16,27 +277,87 @@ export const TranscriptDisplay: React.FC<Props> = ({ segments, isLoading }) => {
     );
   }
 
-  return (
-    <div className="space-y-4">
-      {segments.map((seg, idx) => (
-        <div 
-          key={idx} 
-          className="bg-slate-800 border border-slate-700 rounded-lg p-4 hover:border-indigo-500/50 transition-colors shadow-sm"
-        >
+  const speakers = [...new Set(segments.filter(s => !s.gap).map(s => s.speaker))];
+
+  const renderSegment = (seg: TranscriptSegment, idx: number) => seg.gap ? (
+    <div
+      key={idx}
+      ref={el => { segmentRefs.current[idx] = el; }}
+      className="flex items-center gap-2 px-4 py-2 rounded-lg border border-dashed border-amber-700/60 bg-amber-950/20 text-xs text-amber-400"
+    >
+      <AlertTriangle size={14} />
+      <span>{seg.text}</span>
+    </div>
+  ) : (
+    <div
+      key={idx}
+      ref={el => { segmentRefs.current[idx] = el; }}
+      onClick={e => onSeek && !isInteractive(e.target) && onSeek(idx)}
+      className={`bg-slate-800 border rounded-lg p-4 transition-colors shadow-sm ${idx === flashIndex ? 'border-amber-400 ring-2 ring-amber-400/50' : idx === activeIndex ? 'border-indigo-500 ring-1 ring-indigo-500/50 bg-indigo-950/30' : 'border-slate-700 hover:border-indigo-500/50'} ${onSeek ? 'cursor-pointer' : ''}`}
+    >
+      {onEdit ? (
+        <SegmentEditor
+          segment={seg}
+          index={idx}
+          speakers={speakers}
+          isLast={idx === segments.length - 1}
+          onEdit={onEdit}
+          onSeek={onSeek && (() => onSeek(idx))}
+        />
+      ) : (
+        <>
           <div className="flex flex-wrap items-center gap-3 text-xs uppercase tracking-wide font-semibold text-slate-400 mb-2">
-            <div className={`flex items-center gap-1 px-2 py-1 rounded ${seg.gender === 'Masculino' ? 'bg-blue-900/30 text-blue-400' : seg.gender === 'Femenino' ? 'bg-pink-900/30 text-pink-400' : 'bg-slate-700 text-slate-300'}`}>
+            <div className={`flex items-center gap-1 px-2 py-1 rounded ${genderBadgeClass(seg.gender)}`}>
               <User size={12} />
               <span>{seg.speaker}</span>
               {seg.gender !== 'Desconocido' && <span className="opacity-75">({seg.gender})</span>}
+              {seg.speakerConfidence !== undefined && (
+                <span className="opacity-75 normal-case" title="Confianza de identificación">
+                  · {Math.round(seg.speakerConfidence * 100)}%
+                </span>
+              )}
             </div>
             <div className="flex items-center gap-1 text-slate-500 bg-slate-900/50 px-2 py-1 rounded">
               <Clock size={12} />
               <span>{seg.timestamp}</span>
             </div>
+            {seg.language && <LanguageBadge language={seg.language} />}
           </div>
           <p className="text-slate-200 leading-relaxed whitespace-pre-wrap">{seg.text}</p>
+          {seg.translation && <Translation text={seg.translation} />}
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {onEdit && speakers.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+          <span>Hablantes:</span>
+          {speakers.map(speaker => (
+            <SpeakerChip
+              key={speaker}
+              speaker={speaker}
+              onRename={to => onEdit({ type: 'renameSpeaker', from: speaker, to })}
+            />
+          ))}
         </div>
-      ))}
+      )}
+      {sections?.length
+        ? sections.map(section => (
+          <div key={section.firstIndex} className="space-y-4">
+            <SectionHeader
+              section={section}
+              segments={segments}
+              isCollapsed={collapsed.has(section.firstIndex)}
+              onToggle={() => toggleSection(section.firstIndex)}
+            />
+            {!collapsed.has(section.firstIndex) &&
+              segments.slice(section.firstIndex, section.lastIndex + 1).map((seg, i) => renderSegment(seg, section.firstIndex + i))}
+          </div>
+        ))
+        : segments.map(renderSegment)}
       {isLoading && (
         <div className="animate-pulse space-y-3">
           <div className="h-24 bg-slate-800 rounded-lg"></div>
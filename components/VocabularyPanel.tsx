@@ -0,0 +1,201 @@
+import React, { useMemo, useState } from 'react';
+import { BookA, ChevronDown, Plus, Trash2, ArrowRight, Wand2 } from 'lucide-react';
+import { CorrectionRule, GlossaryTerm, TranscriptSegment } from '../types';
+import { CorrectionChange, applyCorrections, compileRule } from '../services/vocabulary';
+import { Vocabulary } from '../hooks/useVocabulary';
+
+interface Props {
+  vocabulary: Vocabulary;
+  onChange: (patch: Partial<Vocabulary>) => void;
+  // Transcript the preview runs against
+  segments: TranscriptSegment[];
+  // Changes made by the automatic pass on the latest transcription or import
+  appliedChanges: CorrectionChange[];
+  // Applies the changes shown in the preview to the transcript
+  onApply: (changes: CorrectionChange[]) => void;
+}
+
+// Long lists are cut so the panel stays usable on large transcripts
+const MAX_LISTED_CHANGES = 50;
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 outline-none focus:border-indigo-500/50';
+const addButtonClass = 'flex items-center gap-1 text-xs text-indigo-400 hover:text-indigo-300 hover:bg-indigo-900/30 px-2 py-1 rounded-lg transition-colors';
+const deleteButtonClass = 'p-1 rounded text-slate-500 hover:text-red-400 hover:bg-red-900/20';
+
+const ChangeList: React.FC<{ changes: CorrectionChange[]; segments: TranscriptSegment[] }> = ({ changes, segments }) => (
+  <ul className="space-y-2 max-h-64 overflow-y-auto pr-1">
+    {changes.slice(0, MAX_LISTED_CHANGES).map(change => (
+      <li key={change.index} className="text-xs bg-slate-900/60 rounded px-2 py-1.5">
+        <span className="font-mono text-slate-500 mr-2">{segments[change.index]?.timestamp}</span>
+        <span className="text-red-300/80 line-through">{change.before}</span>
+        <ArrowRight size={10} className="inline mx-1 text-slate-500" />
+        <span className="text-emerald-300">{change.after}</span>
+      </li>
+    ))}
+    {changes.length > MAX_LISTED_CHANGES && (
+      <li className="text-xs text-slate-500">Y {changes.length - MAX_LISTED_CHANGES} cambios más.</li>
+    )}
+  </ul>
+);
+
+export const VocabularyPanel: React.FC<Props> = ({ vocabulary, onChange, segments, appliedChanges, onApply }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { glossary, rules } = vocabulary;
+
+  const preview = useMemo(
+    () => (isOpen && segments.length ? applyCorrections(segments, glossary, rules) : null),
+    [isOpen, segments, glossary, rules]
+  );
+
+  const updateTerm = (id: string, patch: Partial<GlossaryTerm>) =>
+    onChange({ glossary: glossary.map(t => (t.id === id ? { ...t, ...patch } : t)) });
+  const updateRule = (id: string, patch: Partial<CorrectionRule>) =>
+    onChange({ rules: rules.map(r => (r.id === id ? { ...r, ...patch } : r)) });
+
+  return (
+    <section className="mb-6 bg-slate-800/40 border border-slate-700 rounded-lg p-4">
+      <button onClick={() => setIsOpen(open => !open)} className="flex items-center gap-2 text-sm font-semibold text-slate-300">
+        <BookA size={16} className="text-indigo-400" />
+        <span>Vocabulario y correcciones</span>
+        <span className="text-xs font-normal text-slate-500">
+          {glossary.length} términos · {rules.filter(r => r.enabled).length} reglas
+        </span>
+        <ChevronDown size={14} className={`text-slate-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-5">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-xs uppercase tracking-wide font-semibold text-slate-400">Glosario</h4>
+              <button
+                onClick={() => onChange({ glossary: [...glossary, { id: crypto.randomUUID(), term: '', soundsLike: [] }] })}
+                className={addButtonClass}
+              >
+                <Plus size={12} />
+                <span>Añadir término</span>
+              </button>
+            </div>
+            <p className="text-xs text-slate-500 mb-2">
+              Se indica al modelo en cada transcripción. Las variantes mal oídas se corrigen además automáticamente.
+            </p>
+            <ul className="space-y-2">
+              {glossary.map(term => (
+                <li key={term.id} className="flex flex-wrap items-center gap-2">
+                  <input
+                    value={term.term}
+                    onChange={e => updateTerm(term.id, { term: e.target.value })}
+                    placeholder="Ortografía correcta (ej. Jira)"
+                    className={`${inputClass} w-48`}
+                  />
+                  <input
+                    value={term.soundsLike.join(',')}
+                    onChange={e => updateTerm(term.id, { soundsLike: e.target.value.split(',') })}
+                    placeholder="Suena como / se oye como (separado por comas)"
+                    className={`${inputClass} flex-1 min-w-[12rem]`}
+                  />
+                  <button onClick={() => onChange({ glossary: glossary.filter(t => t.id !== term.id) })} title="Eliminar" className={deleteButtonClass}>
+                    <Trash2 size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-xs uppercase tracking-wide font-semibold text-slate-400">Reglas de corrección</h4>
+              <button
+                onClick={() => onChange({
+                  rules: [...rules, { id: crypto.randomUUID(), find: '', replace: '', mode: 'word', caseSensitive: false, enabled: true }],
+                })}
+                className={addButtonClass}
+              >
+                <Plus size={12} />
+                <span>Añadir regla</span>
+              </button>
+            </div>
+            <ul className="space-y-2">
+              {rules.map(rule => {
+                const compiled = rule.find ? compileRule(rule) : null;
+                return (
+                  <li key={rule.id}>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={e => updateRule(rule.id, { enabled: e.target.checked })}
+                        title="Activa"
+                        className="accent-indigo-500"
+                      />
+                      <input
+                        value={rule.find}
+                        onChange={e => updateRule(rule.id, { find: e.target.value })}
+                        placeholder={rule.mode === 'regex' ? 'Expresión regular' : 'Buscar'}
+                        className={`${inputClass} w-40 ${rule.mode === 'regex' ? 'font-mono' : ''}`}
+                      />
+                      <ArrowRight size={12} className="text-slate-500" />
+                      <input
+                        value={rule.replace}
+                        onChange={e => updateRule(rule.id, { replace: e.target.value })}
+                        placeholder={rule.mode === 'regex' ? 'Reemplazo ($1, $2...)' : 'Reemplazar por'}
+                        className={`${inputClass} w-40`}
+                      />
+                      <select
+                        value={rule.mode}
+                        onChange={e => updateRule(rule.id, { mode: e.target.value as CorrectionRule['mode'] })}
+                        className={inputClass}
+                      >
+                        <option value="word">Palabra completa</option>
+                        <option value="regex">Expresión regular</option>
+                      </select>
+                      <label className="flex items-center gap-1 text-xs text-slate-400" title="Distinguir mayúsculas y minúsculas">
+                        <input
+                          type="checkbox"
+                          checked={rule.caseSensitive}
+                          onChange={e => updateRule(rule.id, { caseSensitive: e.target.checked })}
+                          className="accent-indigo-500"
+                        />
+                        <span>Aa</span>
+                      </label>
+                      <button onClick={() => onChange({ rules: rules.filter(r => r.id !== rule.id) })} title="Eliminar" className={deleteButtonClass}>
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                    {typeof compiled === 'string' && <p className="text-xs text-red-400 mt-1 ml-6">Expresión no válida: {compiled}</p>}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+
+          {preview && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-xs uppercase tracking-wide font-semibold text-slate-400">Vista previa sobre la transcripción actual</h4>
+                {preview.changes.length > 0 && (
+                  <button onClick={() => onApply(preview.changes)} className={addButtonClass}>
+                    <Wand2 size={12} />
+                    <span>Aplicar {preview.changes.length} cambios</span>
+                  </button>
+                )}
+              </div>
+              {preview.changes.length
+                ? <ChangeList changes={preview.changes} segments={segments} />
+                : <p className="text-xs text-slate-500">Las reglas no cambian nada en esta transcripción.</p>}
+            </div>
+          )}
+
+          {appliedChanges.length > 0 && (
+            <div>
+              <h4 className="text-xs uppercase tracking-wide font-semibold text-slate-400 mb-2">
+                Corregido automáticamente al transcribir ({appliedChanges.length})
+              </h4>
+              <ChangeList changes={appliedChanges} segments={segments} />
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppMode, TranscriptionOptions, TranscriptionProvider, TranscriptSegment } from '../types';
+import { Meeting } from '../services/meetingStore';
+import { BatchJob, BatchQueue, createBatchQueue } from '../services/batchQueue';
+import { arrayBufferToBase64 } from '../services/audioUtils';
+import { shiftSegments, withSegmentStarts } from '../services/timeUtils';
+import { PreprocessOptions, preprocessAudio } from '../services/audioPreprocessing';
+import { classifyError } from '../services/transcriptionErrors';
+
+export interface BatchResult {
+  meetingId: string;
+  segmentCount: number;
+}
+
+export type TranscriptionJob = BatchJob<File, BatchResult>;
+
+export interface BatchTranscriptionOptions {
+  provider: TranscriptionProvider;
+  settings: TranscriptionOptions;
+  preprocess: PreprocessOptions;
+  // Post-correction applied to every finished transcript
+  correct: (segments: TranscriptSegment[]) => TranscriptSegment[];
+  saveMeeting: (fields: Pick<Meeting, 'title' | 'mode'> & Partial<Meeting>) => Promise<Meeting>;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+
+/**
+ * Queue of audio files transcribed in the background. Each finished file is
+ * saved as its own meeting through `saveMeeting`; the open workspace is left alone.
+ * The options in effect when a job starts are the ones it uses.
+ * Files are preprocessed like single uploads when `preprocess` is enabled.
+ */
+export const useBatchTranscription = (options: BatchTranscriptionOptions) => {
+  const [jobs, setJobs] = useState<TranscriptionJob[]>([]);
+  const [concurrency, setConcurrencyState] = useState(DEFAULT_CONCURRENCY);
+  const queueRef = useRef<BatchQueue<File>>();
+
+  const latestRef = useRef(options);
+  latestRef.current = options;
+
+  useEffect(() => {
+    const queue = createBatchQueue<File, BatchResult>(async (file, signal, report) => {
+      const { provider, settings, preprocess, correct, saveMeeting } = latestRef.current;
+      let payload: Blob = file;
+      let offset = 0;
+      if (preprocess.enabled) {
+        report('uploading', 'Optimizando audio...');
+        try {
+          const prepared = await preprocessAudio(file, preprocess);
+          payload = prepared.blob;
+          offset = prepared.offset;
+        } catch (error) {
+          console.warn(`No se pudo optimizar "${file.name}", se enviará el archivo original:`, error);
+        }
+      }
+      report('uploading', 'Leyendo archivo...');
+      const base64 = arrayBufferToBase64(await payload.arrayBuffer());
+
+      report('transcribing');
+      let transcribed;
+      try {
+        transcribed = shiftSegments(withSegmentStarts(await provider.transcribeFile(
+          base64,
+          payload.type || file.type,
+          progress => report('transcribing', progress),
+          { ...settings, signal }
+        )), offset);
+      } catch (error) {
+        throw classifyError(error);
+      }
+      const segments = correct(transcribed);
+
+      const meeting = await saveMeeting({
+        title: file.name.replace(/\.[^.]+$/, ''),
+        mode: AppMode.UPLOAD,
+        audio: file,
+        audioFileName: file.name,
+        originalSegments: transcribed,
+        segments,
+      });
+      return { meetingId: meeting.id, segmentCount: segments.length };
+    }, setJobs, DEFAULT_CONCURRENCY);
+    queueRef.current = queue;
+    return () => queue.dispose();
+  }, []);
+
+  const setConcurrency = useCallback((value: number) => {
+    setConcurrencyState(value);
+    queueRef.current?.setConcurrency(value);
+  }, []);
+
+  return {
+    jobs,
+    concurrency,
+    setConcurrency,
+    add: useCallback((files: File[]) => queueRef.current?.add(files), []),
+    cancel: useCallback((id: string) => queueRef.current?.cancel(id), []),
+    retry: useCallback((id: string) => queueRef.current?.retry(id), []),
+    remove: useCallback((id: string) => queueRef.current?.remove(id), []),
+  };
+};
@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Meeting,
+  MeetingSummary,
+  createMeeting,
+  deleteMeeting,
+  duplicateMeeting,
+  getMeeting,
+  listMeetings,
+  renameMeeting,
+  saveMeeting,
+} from '../services/meetingStore';
+import { DatabaseBlockedError } from '../services/database';
+
+const AUTOSAVE_DELAY_MS = 600;
+
+/**
+ * Meeting library backed by IndexedDB. Tracks the meeting currently open in the
+ * workspace and persists changes to it with a short debounce.
+ */
+export const useMeetingLibrary = () => {
+  const [meetings, setMeetings] = useState<MeetingSummary[]>([]);
+  const [currentMeeting, setCurrentMeeting] = useState<Meeting | null>(null);
+  // Why the library could not be read, if it could not
+  const [error, setError] = useState<string | null>(null);
+  const currentRef = useRef<Meeting | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  // Whether the open meeting has changes that are not saved yet. Saving bumps
+  // `updatedAt`, so a meeting that was only opened must not be saved again.
+  const dirtyRef = useRef(false);
+
+  const setCurrent = (meeting: Meeting | null) => {
+    currentRef.current = meeting;
+    setCurrentMeeting(meeting);
+  };
+
+  const refresh = useCallback(async () => {
+    try {
+      setMeetings(await listMeetings());
+      setError(null);
+    } catch (error) {
+      console.error("No se pudo leer la biblioteca de reuniones:", error);
+      setError(error instanceof DatabaseBlockedError ? error.message : 'No se pudo leer la biblioteca de reuniones.');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return () => clearTimeout(saveTimerRef.current);
+  }, [refresh]);
+
+  const flush = useCallback(async () => {
+    clearTimeout(saveTimerRef.current);
+    const meeting = currentRef.current;
+    if (!meeting || !dirtyRef.current) return;
+    dirtyRef.current = false;
+    try {
+      await saveMeeting(meeting);
+      await refresh();
+    } catch (error) {
+      dirtyRef.current = true;
+      console.error("No se pudo guardar la reunión:", error);
+    }
+  }, [refresh]);
+
+  const startMeeting = useCallback(async (fields: Parameters<typeof createMeeting>[0]) => {
+    await flush();
+    const meeting = createMeeting(fields);
+    setCurrent(meeting);
+    dirtyRef.current = true;
+    await flush();
+    return meeting;
+  }, [flush]);
+
+  // Save a new meeting without opening it (e.g. one finished by the batch queue)
+  const addMeeting = useCallback(async (fields: Parameters<typeof createMeeting>[0]) => {
+    const meeting = await saveMeeting(createMeeting(fields));
+    await refresh();
+    return meeting;
+  }, [refresh]);
+
+  // Merge changes into the open meeting and schedule a save
+  const updateCurrent = useCallback((patch: Partial<Meeting>) => {
+    const meeting = currentRef.current;
+    if (!meeting) return;
+    setCurrent({ ...meeting, ...patch });
+    dirtyRef.current = true;
+    clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(flush, AUTOSAVE_DELAY_MS);
+  }, [flush]);
+
+  // Update a meeting that may no longer be open (e.g. a transcription finishing after switching meetings)
+  const patchMeeting = useCallback(async (id: string, patch: Partial<Meeting>) => {
+    if (currentRef.current?.id === id) {
+      updateCurrent(patch);
+      return;
+    }
+    const meeting = await getMeeting(id);
+    if (meeting) await saveMeeting({ ...meeting, ...patch });
+    await refresh();
+  }, [updateCurrent, refresh]);
+
+  const openMeeting = useCallback(async (id: string) => {
+    await flush();
+    const meeting = await getMeeting(id);
+    setCurrent(meeting ?? null);
+    dirtyRef.current = false;
+    return meeting;
+  }, [flush]);
+
+  const closeMeeting = useCallback(async () => {
+    await flush();
+    setCurrent(null);
+    dirtyRef.current = false;
+  }, [flush]);
+
+  const rename = useCallback(async (id: string, title: string) => {
+    if (currentRef.current?.id === id) {
+      setCurrent({ ...currentRef.current, title });
+      dirtyRef.current = true;
+      await flush();
+    } else {
+      await renameMeeting(id, title);
+      await refresh();
+    }
+  }, [flush, refresh]);
+
+  const duplicate = useCallback(async (id: string) => {
+    await flush();
+    await duplicateMeeting(id);
+    await refresh();
+  }, [flush, refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    if (currentRef.current?.id === id) {
+      clearTimeout(saveTimerRef.current);
+      setCurrent(null);
+      dirtyRef.current = false;
+    }
+    await deleteMeeting(id);
+    await refresh();
+  }, [refresh]);
+
+  return {
+    meetings,
+    error,
+    currentMeeting,
+    startMeeting,
+    addMeeting,
+    updateCurrent,
+    patchMeeting,
+    openMeeting,
+    closeMeeting,
+    rename,
+    duplicate,
+    remove,
+  };
+};
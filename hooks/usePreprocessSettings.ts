@@ -0,0 +1,8 @@
+import { DEFAULT_PREPROCESS_OPTIONS } from '../services/audioPreprocessing';
+import { useStoredSettings } from './useStoredSettings';
+
+/**
+ * How uploads are prepared before transcription, remembered across visits.
+ */
+export const usePreprocessSettings = () =>
+  useStoredSettings('reunionai.preprocessSettings', DEFAULT_PREPROCESS_OPTIONS, stored => typeof stored.enabled === 'boolean');
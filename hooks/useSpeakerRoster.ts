@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useState } from 'react';
+import { VoiceSample } from '../types';
+import { RosterSpeaker, deleteSpeaker, listSpeakers, saveSpeaker } from '../services/rosterStore';
+import { preprocessAudio } from '../services/audioPreprocessing';
+import { arrayBufferToBase64 } from '../services/audioUtils';
+import { MAX_SAMPLE_SECONDS } from '../services/speakerRoster';
+
+/**
+ * Enrolled speakers backed by IndexedDB. `voiceSamples` holds the clips of the
+ * enabled ones, ready to send with a file transcription.
+ */
+export const useSpeakerRoster = () => {
+  const [speakers, setSpeakers] = useState<RosterSpeaker[]>([]);
+  const [voiceSamples, setVoiceSamples] = useState<VoiceSample[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSpeakers(await listSpeakers());
+    } catch (error) {
+      console.error("No se pudo leer el registro de hablantes:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(
+      speakers
+        .filter(s => s.enabled && s.name.trim())
+        .map(async (s): Promise<VoiceSample> => ({
+          name: s.name.trim(),
+          gender: s.gender,
+          base64: arrayBufferToBase64(await s.sample.arrayBuffer()),
+          mimeType: s.sample.type,
+        }))
+    ).then(samples => {
+      if (!cancelled) setVoiceSamples(samples);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [speakers]);
+
+  // Trims silence and keeps the first seconds of speech, so the clip stays small
+  const addSpeaker = useCallback(async (fields: Pick<RosterSpeaker, 'name' | 'gender'>, clip: Blob) => {
+    const prepared = await preprocessAudio(clip, { format: 'opus', trimSilence: true }, MAX_SAMPLE_SECONDS);
+    await saveSpeaker({
+      ...fields,
+      id: crypto.randomUUID(),
+      sample: prepared.blob,
+      sampleDuration: prepared.duration,
+      enabled: true,
+      createdAt: new Date().toISOString(),
+    });
+    await refresh();
+  }, [refresh]);
+
+  const updateSpeaker = useCallback(async (id: string, patch: Partial<Pick<RosterSpeaker, 'name' | 'gender' | 'enabled'>>) => {
+    const speaker = speakers.find(s => s.id === id);
+    if (!speaker) return;
+    setSpeakers(current => current.map(s => (s.id === id ? { ...s, ...patch } : s)));
+    try {
+      await saveSpeaker({ ...speaker, ...patch });
+    } catch (error) {
+      console.error("No se pudo guardar el hablante:", error);
+      await refresh();
+    }
+  }, [speakers, refresh]);
+
+  const removeSpeaker = useCallback(async (id: string) => {
+    try {
+      await deleteSpeaker(id);
+    } catch (error) {
+      console.error("No se pudo eliminar el hablante:", error);
+    }
+    await refresh();
+  }, [refresh]);
+
+  return { speakers, voiceSamples, addSpeaker, updateSpeaker, removeSpeaker };
+};
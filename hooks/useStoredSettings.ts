@@ -0,0 +1,34 @@
+import { useCallback, useState } from 'react';
+
+const load = <T extends object>(key: string, defaults: T, isValid: (stored: any) => boolean): T => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(key) || 'null');
+    // Fields added since the settings were saved take their defaults
+    if (stored && isValid(stored)) return { ...defaults, ...stored };
+  } catch {
+    // Corrupt or unavailable storage falls back to the defaults
+  }
+  return defaults;
+};
+
+/**
+ * Settings object remembered across visits in localStorage under `key`.
+ * `isValid` rejects stored values with an outdated or foreign shape.
+ */
+export const useStoredSettings = <T extends object>(key: string, defaults: T, isValid: (stored: any) => boolean) => {
+  const [settings, setSettings] = useState<T>(() => load(key, defaults, isValid));
+
+  const update = useCallback((patch: Partial<T>) => {
+    setSettings(current => {
+      const next = { ...current, ...patch };
+      try {
+        localStorage.setItem(key, JSON.stringify(next));
+      } catch {
+        // Private browsing may reject writes; the settings still apply to this session
+      }
+      return next;
+    });
+  }, [key]);
+
+  return { settings, update };
+};
@@ -0,0 +1,62 @@
+import { useCallback, useState } from 'react';
+import { TranscriptSegment } from '../types';
+import { applyEdit, TranscriptEdit } from '../services/transcriptEditing';
+
+interface History {
+  past: TranscriptSegment[][];
+  present: TranscriptSegment[];
+  future: TranscriptSegment[][];
+}
+
+const MAX_HISTORY = 100;
+
+/**
+ * Transcript state with undo/redo. User edits go through `edit` and are recorded;
+ * `reset` loads a new transcript and clears the history, and `replace` applies a
+ * change that is not recorded (e.g. streamed live text). That change is applied to
+ * every snapshot as well, so undoing an edit never drops text that arrived later.
+ */
+export const useTranscriptHistory = (initial: TranscriptSegment[] = []) => {
+  const [history, setHistory] = useState<History>({ past: [], present: initial, future: [] });
+
+  const edit = useCallback((change: TranscriptEdit) => {
+    setHistory(h => {
+      const next = applyEdit(h.present, change);
+      if (next === h.present) return h;
+      return { past: [...h.past, h.present].slice(-MAX_HISTORY), present: next, future: [] };
+    });
+  }, []);
+
+  const reset = useCallback((segments: TranscriptSegment[]) => {
+    setHistory({ past: [], present: segments, future: [] });
+  }, []);
+
+  const replace = useCallback((update: (prev: TranscriptSegment[]) => TranscriptSegment[]) => {
+    setHistory(h => ({ past: h.past.map(update), present: update(h.present), future: h.future.map(update) }));
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => {
+      if (!h.past.length) return h;
+      return { past: h.past.slice(0, -1), present: h.past[h.past.length - 1], future: [h.present, ...h.future] };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => {
+      if (!h.future.length) return h;
+      return { past: [...h.past, h.present], present: h.future[0], future: h.future.slice(1) };
+    });
+  }, []);
+
+  return {
+    segments: history.present,
+    edit,
+    reset,
+    replace,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
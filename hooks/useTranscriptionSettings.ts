@@ -0,0 +1,11 @@
+import { TranscriptionOptions } from '../types';
+import { DEFAULT_LANGUAGE } from '../services/languages';
+import { useStoredSettings } from './useStoredSettings';
+
+const DEFAULT_SETTINGS: TranscriptionOptions = { language: DEFAULT_LANGUAGE };
+
+/**
+ * Language and translation settings, remembered across visits in localStorage.
+ */
+export const useTranscriptionSettings = () =>
+  useStoredSettings('reunionai.transcriptionSettings', DEFAULT_SETTINGS, stored => typeof stored.language === 'string');
@@ -0,0 +1,15 @@
+import { CorrectionRule, GlossaryTerm } from '../types';
+import { useStoredSettings } from './useStoredSettings';
+
+export interface Vocabulary {
+  glossary: GlossaryTerm[];
+  rules: CorrectionRule[];
+}
+
+const EMPTY_VOCABULARY: Vocabulary = { glossary: [], rules: [] };
+
+/**
+ * Glossary and post-correction rules, remembered across visits in localStorage.
+ */
+export const useVocabulary = () =>
+  useStoredSettings('reunionai.vocabulary', EMPTY_VOCABULARY, stored => Array.isArray(stored.glossary) && Array.isArray(stored.rules));
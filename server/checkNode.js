@@ -0,0 +1,6 @@
+// Runs before the proxy: older Node versions cannot strip types and only report "bad option"
+const [major, minor] = process.versions.node.split('.').map(Number);
+if (major < 22 || (major === 22 && minor < 6)) {
+  console.error(`El proxy necesita Node.js 22.6 o posterior (versión actual: ${process.versions.node}).`);
+  process.exit(1);
+}
@@ -0,0 +1,184 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { ReadableStream as WebReadableStream } from 'node:stream/web';
+import { GoogleGenAI } from '@google/genai';
+import { createRateLimiter } from './rateLimiter.ts';
+import { stubGenerateContent } from './stub.ts';
+
+// Keeps the Gemini API key on the server. The browser sends its generateContent
+// calls here and asks for a short-lived token before opening a live session.
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // Variables may come from the environment instead
+}
+
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+const API_KEY = process.env.GEMINI_API_KEY || '';
+// Answers every call with fake data; no key or network needed
+const STUB = process.argv.includes('--stub') || process.env.PROXY_STUB === '1' || process.env.PROXY_STUB === 'true';
+const RATE_LIMIT = Number(process.env.PROXY_RATE_LIMIT) || 30;
+const MAX_BODY_BYTES = (Number(process.env.PROXY_MAX_BODY_MB) || 40) * 1024 * 1024;
+// Addresses of reverse proxies whose X-User-Id and X-Forwarded-For headers are believed
+const TRUSTED_PROXIES = new Set((process.env.PROXY_TRUSTED_PROXIES || '').split(',').map(a => a.trim()).filter(Boolean));
+
+const GEMINI_ORIGIN = 'https://generativelanguage.googleapis.com';
+// Only content generation is forwarded, so the key cannot be used for anything else
+const GENERATE_PATH = /^\/api\/gemini\/(v1|v1beta|v1alpha)\/models\/[\w.-]+:(generateContent|streamGenerateContent)$/;
+// A live token must be used within a minute and stops working after half an hour
+const TOKEN_NEW_SESSION_MS = 60 * 1000;
+const TOKEN_LIFETIME_MS = 30 * 60 * 1000;
+
+const limiter = createRateLimiter({ limit: RATE_LIMIT, windowMs: 60 * 1000 });
+
+// Written without parameter properties, which Node's type stripping cannot run
+class ProxyError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// IPv4 peers show up as IPv4-mapped IPv6 addresses on dual-stack sockets
+const normalizeAddress = (address: string) => address.trim().replace(/^::ffff:/, '');
+
+// Users are told apart by address. Any client can set headers, so the ones an
+// authenticating reverse proxy adds only count when the request came through a trusted one.
+const userOf = (req: IncomingMessage) => {
+  const peer = normalizeAddress(req.socket.remoteAddress || '');
+  if (!TRUSTED_PROXIES.has(peer)) return peer || 'anonymous';
+  const userId = req.headers['x-user-id'];
+  if (typeof userId === 'string' && userId) return userId;
+  // The client is the nearest hop that is not one of our proxies
+  const hops = String(req.headers['x-forwarded-for'] || '').split(',').map(normalizeAddress).filter(Boolean);
+  return hops.reverse().find(hop => !TRUSTED_PROXIES.has(hop)) || peer;
+};
+
+// Errors use Gemini's shape so the SDK on the client reports the status as usual
+const sendError = (res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ error: { code: status, message } }));
+};
+
+const sendJson = (res: ServerResponse, body: unknown) => {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new ProxyError(413, 'La petición supera el tamaño máximo permitido.');
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function proxyGenerate(req: IncomingMessage, res: ServerResponse, url: URL) {
+  const body = await readBody(req);
+
+  if (STUB) {
+    const response = stubGenerateContent(JSON.parse(body.toString() || '{}'));
+    if (url.pathname.endsWith(':streamGenerateContent')) {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.end(`data: ${JSON.stringify(response)}\r\n\r\n`);
+    } else {
+      sendJson(res, response);
+    }
+    return;
+  }
+
+  // Cancelling on the client (or closing the tab) cancels the upstream call too
+  const abort = new AbortController();
+  res.on('close', () => abort.abort());
+
+  const upstream = await fetch(`${GEMINI_ORIGIN}${url.pathname.replace(/^\/api\/gemini/, '')}${url.search}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-goog-api-key': API_KEY },
+    body,
+    signal: abort.signal,
+  });
+  res.writeHead(upstream.status, { 'Content-Type': upstream.headers.get('content-type') || 'application/json' });
+  if (!upstream.body) {
+    res.end();
+    return;
+  }
+  // Streamed answers are relayed chunk by chunk
+  await pipeline(Readable.fromWeb(upstream.body as WebReadableStream), res);
+}
+
+async function createLiveToken(res: ServerResponse) {
+  if (STUB) {
+    sendJson(res, { stub: true });
+    return;
+  }
+  const ai = new GoogleGenAI({ apiKey: API_KEY });
+  const now = Date.now();
+  const expiresAt = new Date(now + TOKEN_LIFETIME_MS).toISOString();
+  const token = await ai.authTokens.create({
+    config: {
+      uses: 1,
+      expireTime: expiresAt,
+      newSessionExpireTime: new Date(now + TOKEN_NEW_SESSION_MS).toISOString(),
+      httpOptions: { apiVersion: 'v1alpha' },
+    },
+  });
+  sendJson(res, { token: token.name, expiresAt });
+}
+
+async function route(req: IncomingMessage, res: ServerResponse, url: URL) {
+  if (req.method === 'GET' && url.pathname === '/api/health') {
+    sendJson(res, { ok: true, stub: STUB });
+    return;
+  }
+  if (req.method !== 'POST' || (url.pathname !== '/api/live-token' && !GENERATE_PATH.test(url.pathname))) {
+    throw new ProxyError(404, 'Ruta no disponible en el proxy.');
+  }
+  if (!STUB && !API_KEY) throw new ProxyError(401, 'GEMINI_API_KEY no está configurada en el servidor.');
+
+  const { allowed, retryAfter } = limiter.check(userOf(req));
+  if (!allowed) {
+    sendError(res, 429, `Demasiadas peticiones. Inténtalo de nuevo en ${retryAfter} s.`, { 'Retry-After': String(retryAfter) });
+    return;
+  }
+
+  if (url.pathname === '/api/live-token') await createLiveToken(res);
+  else await proxyGenerate(req, res, url);
+}
+
+const server = createServer(async (req, res) => {
+  const startedAt = Date.now();
+  const url = new URL(req.url || '/', 'http://localhost');
+  // One line per request; bodies carry meeting audio and are never logged
+  res.on('finish', () => {
+    console.log(
+      `${new Date(startedAt).toISOString()} ${userOf(req)} ${req.method} ${url.pathname} ${res.statusCode} ${Date.now() - startedAt}ms`
+    );
+  });
+
+  try {
+    await route(req, res, url);
+  } catch (error) {
+    if (res.headersSent) {
+      res.destroy(error as Error);
+      return;
+    }
+    if (error instanceof ProxyError) {
+      sendError(res, error.status, error.message);
+    } else {
+      console.error('Error en el proxy:', error);
+      sendError(res, 502, 'No se pudo contactar con Gemini.');
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Proxy de Gemini escuchando en http://localhost:${PORT}${STUB ? ' (modo simulado)' : ''}`);
+  if (!STUB && !API_KEY) console.warn('Falta GEMINI_API_KEY: las peticiones fallarán hasta configurarla.');
+});
@@ -0,0 +1,38 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until the user's window resets, when the request was refused
+  retryAfter: number;
+}
+
+export interface RateLimiterOptions {
+  // Requests allowed per user in each window
+  limit: number;
+  windowMs: number;
+}
+
+/**
+ * Fixed-window request counter per user. Windows are created on a user's first
+ * request and dropped once they expire, so idle users cost nothing.
+ */
+export const createRateLimiter = ({ limit, windowMs }: RateLimiterOptions) => {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  const sweep = (now: number) => {
+    windows.forEach((window, user) => {
+      if (now - window.startedAt >= windowMs) windows.delete(user);
+    });
+  };
+
+  return {
+    check: (user: string, now = Date.now()): RateLimitResult => {
+      sweep(now);
+      const window = windows.get(user) ?? { startedAt: now, count: 0 };
+      windows.set(user, window);
+      if (window.count >= limit) {
+        return { allowed: false, retryAfter: Math.ceil((window.startedAt + windowMs - now) / 1000) };
+      }
+      window.count++;
+      return { allowed: true, retryAfter: 0 };
+    },
+  };
+};
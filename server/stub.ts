@@ -0,0 +1,60 @@
+// Subset of the OpenAPI schema the SDK sends as generationConfig.responseSchema
+interface ResponseSchema {
+  type?: string;
+  enum?: string[];
+  items?: ResponseSchema;
+  properties?: Record<string, ResponseSchema>;
+}
+
+interface StubRequest {
+  generationConfig?: { responseSchema?: ResponseSchema };
+}
+
+const STUB_ITEMS = 3;
+
+// Plausible values for fields the client validates, by property name and array position
+const FIELD_VALUES: Record<string, (position: number) => unknown> = {
+  speaker: position => `Hablante ${(position % 2) + 1}`,
+  timestamp: position => `00:${String(position * 5).padStart(2, '0')}`,
+  language: () => 'es',
+  confidence: () => 0.9,
+  index: position => position,
+};
+
+function fakeValue(schema: ResponseSchema, field: string, position: number): unknown {
+  const hint = FIELD_VALUES[field];
+  if (hint) return hint(position);
+  if (schema.enum?.length) return schema.enum[0];
+
+  switch (schema.type?.toUpperCase()) {
+    case 'OBJECT':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => [key, fakeValue(property, key, position)])
+      );
+    case 'ARRAY':
+      // Arrays of indices (citations) point at the first segment
+      return schema.items?.type?.toUpperCase() === 'INTEGER'
+        ? [0]
+        : Array.from({ length: STUB_ITEMS }, (_, i) => fakeValue(schema.items ?? {}, field, i));
+    case 'INTEGER':
+    case 'NUMBER':
+      return 0;
+    case 'BOOLEAN':
+      return false;
+    default:
+      return `Texto simulado ${position + 1} (${field || 'respuesta'})`;
+  }
+}
+
+/**
+ * Build a generateContent response without calling Gemini. The answer follows
+ * the request's response schema, so every client call gets output it can parse.
+ */
+export function stubGenerateContent(request: StubRequest) {
+  const schema = request.generationConfig?.responseSchema;
+  const text = schema ? JSON.stringify(fakeValue(schema, '', 0)) : 'Respuesta simulada del proxy.';
+  return {
+    candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP', index: 0 }],
+    modelVersion: 'stub',
+  };
+}
@@ -0,0 +1,111 @@
+import { AgendaCoverage, AgendaItem, AgendaSection, MeetingPlan, TranscriptSegment } from "../types";
+import { getSegmentStart } from "./timeUtils";
+
+// A section as the model reports it: `item` is the 1-based agenda number, 0 for off-agenda talk
+export interface RawAgendaSection {
+  item: number;
+  title?: string;
+  firstIndex: number;
+  lastIndex: number;
+}
+
+// Contiguous block of the transcript, as shown and exported
+export interface TranscriptSection extends AgendaSection {
+  offAgenda: boolean;
+  // Segments no section claimed
+  unassigned: boolean;
+}
+
+export const EMPTY_PLAN: MeetingPlan = { title: '', attendees: [], agenda: [] };
+
+// Drop the blank attendees and agenda items the form leaves behind
+export const cleanPlan = ({ title, attendees, agenda }: MeetingPlan): MeetingPlan => ({
+  title: title.trim(),
+  attendees: attendees.map(a => a.trim()).filter(Boolean),
+  agenda: agenda.map(item => ({ ...item, title: item.title.trim() })).filter(item => item.title),
+});
+
+// Start times of the first and last segment of every section. Deleting, merging or
+// splitting segments shifts the indices after the edit, which changes these.
+const sectionFingerprint = (sections: AgendaSection[], segments: TranscriptSegment[]) =>
+  sections
+    .flatMap(s => [s.firstIndex, s.lastIndex])
+    .map(i => (segments[i] ? getSegmentStart(segments[i]).toFixed(2) : '-'))
+    .join(',');
+
+const OFF_AGENDA_TITLE = 'Fuera de la agenda';
+const UNASSIGNED_TITLE = 'Sin asignar';
+
+/**
+ * Turn the model's ranges into sections that are in order and never overlap.
+ * Ranges are clamped to the transcript and references to unknown items dropped;
+ * an item counts as uncovered when no section is left for it.
+ */
+export function normalizeAgendaSections(
+  raw: RawAgendaSection[],
+  agenda: AgendaItem[],
+  segments: TranscriptSegment[]
+): AgendaCoverage {
+  const segmentCount = segments.length;
+  const sections: AgendaSection[] = [];
+  [...raw]
+    .filter(s => Number.isInteger(s.item) && s.item >= 0 && s.item <= agenda.length)
+    .sort((a, b) => a.firstIndex - b.firstIndex)
+    .forEach(s => {
+      const previousEnd = sections.length ? sections[sections.length - 1].lastIndex : -1;
+      const firstIndex = Math.max(0, previousEnd + 1, Math.floor(s.firstIndex));
+      const lastIndex = Math.min(segmentCount - 1, Math.floor(s.lastIndex));
+      if (lastIndex < firstIndex) return;
+      const item = agenda[s.item - 1];
+      sections.push(item
+        ? { itemId: item.id, title: item.title, firstIndex, lastIndex }
+        : { title: s.title?.trim() || OFF_AGENDA_TITLE, firstIndex, lastIndex });
+    });
+
+  const covered = new Set(sections.map(s => s.itemId));
+  return {
+    sections,
+    uncoveredItemIds: agenda.filter(item => !covered.has(item.id)).map(item => item.id),
+    segmentCount,
+    fingerprint: sectionFingerprint(sections, segments),
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+// Coverage stored before fingerprints existed can only be checked by length
+export const isCoverageStale = (coverage: AgendaCoverage, segments: TranscriptSegment[]) =>
+  coverage.segmentCount !== segments.length ||
+  (coverage.fingerprint !== undefined && coverage.fingerprint !== sectionFingerprint(coverage.sections, segments));
+
+/**
+ * Split the whole transcript into consecutive sections for display and export.
+ * Stretches no section claimed become "Sin asignar" blocks, and agenda items use
+ * their current title, so renaming an item needs no new mapping.
+ */
+export function buildTranscriptSections(
+  segments: TranscriptSegment[],
+  coverage: AgendaCoverage,
+  agenda: AgendaItem[] = []
+): TranscriptSection[] {
+  const titles = new Map(agenda.map(item => [item.id, item.title]));
+  const result: TranscriptSection[] = [];
+  let next = 0;
+  const unassigned = (firstIndex: number, lastIndex: number) =>
+    result.push({ title: UNASSIGNED_TITLE, firstIndex, lastIndex, offAgenda: false, unassigned: true });
+
+  coverage.sections.forEach(section => {
+    if (section.firstIndex >= segments.length) return;
+    if (section.firstIndex > next) unassigned(next, section.firstIndex - 1);
+    const lastIndex = Math.min(section.lastIndex, segments.length - 1);
+    result.push({
+      ...section,
+      title: (section.itemId && titles.get(section.itemId)) || section.title,
+      lastIndex,
+      offAgenda: !section.itemId,
+      unassigned: false,
+    });
+    next = lastIndex + 1;
+  });
+  if (next < segments.length && result.length) unassigned(next, segments.length - 1);
+  return result;
+}
@@ -0,0 +1,277 @@
+// Microphone capture for live sessions. Audio is resampled, framed and encoded inside
+// an AudioWorklet so a busy UI thread cannot cause dropouts.
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+// 2048 samples at 16kHz = 128ms per packet
+export const PACKET_SAMPLES = 2048;
+
+export interface PcmPacket {
+  sequence: number;
+  // Mono mix of all input channels
+  pcm: Int16Array;
+  base64: string;
+  // RMS (0..1) of each input channel over the packet, before mixing
+  channelLevels: number[];
+}
+
+// Runs in the AudioWorkletGlobalScope, where `sampleRate` is the context's real rate
+// and `btoa` is not available, hence the hand-rolled base64 encoder.
+const WORKLET_SOURCE = `
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function toBase64(bytes) {
+  let out = '';
+  let i = 0;
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    out += BASE64_CHARS[n >> 18] + BASE64_CHARS[(n >> 12) & 63] + BASE64_CHARS[(n >> 6) & 63] + BASE64_CHARS[n & 63];
+  }
+  const rest = bytes.length - i;
+  if (rest === 1) {
+    const n = bytes[i] << 16;
+    out += BASE64_CHARS[n >> 18] + BASE64_CHARS[(n >> 12) & 63] + '==';
+  } else if (rest === 2) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8);
+    out += BASE64_CHARS[n >> 18] + BASE64_CHARS[(n >> 12) & 63] + BASE64_CHARS[(n >> 6) & 63] + '=';
+  }
+  return out;
+}
+
+// Windowed-sinc low-pass (Hamming) with its cutoff at the target Nyquist frequency,
+// so content above it does not alias into speech when decimating
+const FILTER_TAPS = 31;
+
+function lowPassTaps(ratio) {
+  const cutoff = 0.5 / ratio;
+  const middle = (FILTER_TAPS - 1) / 2;
+  const taps = new Float32Array(FILTER_TAPS);
+  let sum = 0;
+  for (let k = 0; k < FILTER_TAPS; k++) {
+    const x = k - middle;
+    const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+    taps[k] = sinc * (0.54 - 0.46 * Math.cos((2 * Math.PI * k) / (FILTER_TAPS - 1)));
+    sum += taps[k];
+  }
+  for (let k = 0; k < FILTER_TAPS; k++) taps[k] /= sum;
+  return taps;
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, frameSize } = options.processorOptions;
+    this.ratio = sampleRate / targetSampleRate;
+    this.frameSize = frameSize;
+    this.frame = new Int16Array(frameSize);
+    this.frameIndex = 0;
+    this.sequence = 0;
+    // Fractional read position relative to the current block; -1 refers to the last sample of the previous block
+    this.position = 0;
+    this.last = 0;
+    // Only downsampling needs the filter; its input history carries across blocks
+    this.taps = this.ratio > 1 ? lowPassTaps(this.ratio) : null;
+    this.history = new Float32Array(FILTER_TAPS - 1);
+    // Per-channel sum of squares since the last packet
+    this.energy = [];
+    this.energySamples = 0;
+    this.port.onmessage = (e) => {
+      if (e.data !== 'flush') return;
+      this.emit(true);
+      this.port.postMessage('flushed');
+    };
+  }
+
+  pushSample(value) {
+    const s = Math.max(-1, Math.min(1, value));
+    this.frame[this.frameIndex++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    if (this.frameIndex === this.frameSize) this.emit(false);
+  }
+
+  emit(partial) {
+    if (!this.frameIndex) return;
+    const pcm = partial ? this.frame.slice(0, this.frameIndex) : this.frame;
+    const base64 = toBase64(new Uint8Array(pcm.buffer, 0, pcm.byteLength));
+    const channelLevels = this.energy.map((e) => Math.sqrt(e / (this.energySamples || 1)));
+    this.energy = [];
+    this.energySamples = 0;
+    this.port.postMessage({ sequence: this.sequence++, pcm, base64, channelLevels }, [pcm.buffer]);
+    this.frame = new Int16Array(this.frameSize);
+    this.frameIndex = 0;
+  }
+
+  lowPass(samples) {
+    const taps = this.taps;
+    const history = this.history;
+    const out = new Float32Array(samples.length);
+    const at = (i) => (i < 0 ? history[history.length + i] : samples[i]);
+    for (let i = 0; i < samples.length; i++) {
+      let acc = 0;
+      for (let k = 0; k < taps.length; k++) acc += taps[k] * at(i - k);
+      out[i] = acc;
+    }
+    // Keep the last inputs for the start of the next block
+    const keep = Math.min(history.length, samples.length);
+    history.copyWithin(0, keep);
+    history.set(samples.subarray(samples.length - keep), history.length - keep);
+    return out;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || !input.length) return true;
+
+    for (let c = 0; c < input.length; c++) {
+      let sum = 0;
+      for (let i = 0; i < input[c].length; i++) sum += input[c][i] * input[c][i];
+      this.energy[c] = (this.energy[c] || 0) + sum;
+    }
+    this.energySamples += input[0].length;
+
+    // Downmix to mono
+    let samples = input[0];
+    if (input.length > 1) {
+      samples = new Float32Array(input[0].length);
+      for (const channel of input) {
+        for (let i = 0; i < channel.length; i++) samples[i] += channel[i] / input.length;
+      }
+    }
+
+    if (this.ratio === 1) {
+      for (let i = 0; i < samples.length; i++) this.pushSample(samples[i]);
+      return true;
+    }
+
+    if (this.taps) samples = this.lowPass(samples);
+
+    // Linear interpolation resampler, carrying the read position across blocks
+    const at = (i) => (i < 0 ? this.last : samples[i]);
+    while (this.position < samples.length - 1) {
+      const i = Math.floor(this.position);
+      const frac = this.position - i;
+      this.pushSample(at(i) + (at(i + 1) - at(i)) * frac);
+      this.position += this.ratio;
+    }
+    this.position -= samples.length;
+    this.last = samples[samples.length - 1];
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+// How long stop() waits for the worklet, in case the context is already closing
+const FLUSH_TIMEOUT_MS = 500;
+
+// The module is registered once per AudioContext
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+const loadWorklet = async (ctx: AudioContext) => {
+  if (loadedContexts.has(ctx)) return;
+  const url = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    loadedContexts.add(ctx);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export interface AudioCapture {
+  // Sample rate the device actually delivered (packets are always CAPTURE_SAMPLE_RATE)
+  inputSampleRate: number;
+  // Resolves once the last, partial packet has been delivered
+  stop: () => Promise<void>;
+}
+
+/**
+ * Start emitting fixed-size 16kHz PCM packets from `source`. Resampling happens in
+ * the worklet when the context does not run at 16kHz (e.g. the device ignored the
+ * requested rate). A multi-channel source (e.g. a ChannelMergerNode joining several
+ * inputs) is mixed down, with the level of each channel reported per packet.
+ */
+export async function startAudioCapture(
+  ctx: AudioContext,
+  source: AudioNode,
+  onPacket: (packet: PcmPacket) => void
+): Promise<AudioCapture> {
+  await loadWorklet(ctx);
+  const node = new AudioWorkletNode(ctx, 'pcm-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [1],
+    processorOptions: { targetSampleRate: CAPTURE_SAMPLE_RATE, frameSize: PACKET_SAMPLES },
+  });
+  let onFlushed = () => {};
+  node.port.onmessage = (e: MessageEvent<PcmPacket | 'flushed'>) => {
+    if (e.data === 'flushed') onFlushed();
+    else onPacket(e.data);
+  };
+
+  source.connect(node);
+  // The processor outputs silence; connecting it keeps the node pulled by the graph
+  node.connect(ctx.destination);
+
+  return {
+    inputSampleRate: ctx.sampleRate,
+    stop: () => new Promise<void>(resolve => {
+      const timer = setTimeout(() => onFlushed(), FLUSH_TIMEOUT_MS);
+      // The port closes once the worklet confirms the flush
+      onFlushed = () => {
+        clearTimeout(timer);
+        node.port.close();
+        resolve();
+      };
+      node.port.postMessage('flush');
+      source.disconnect(node);
+      node.disconnect();
+    }),
+  };
+}
+
+export interface PacketQueue<T> {
+  push: (packet: T) => void;
+  // Start delivering packets (queued ones first, in order)
+  attach: (send: (packet: T) => void) => void;
+  // Stop delivering; packets are queued again until the next attach
+  detach: () => void;
+  size: () => number;
+  // Packets discarded because the queue was full
+  dropped: () => number;
+}
+
+/**
+ * Holds packets until a session is ready to receive them. When the session takes
+ * too long, the oldest packets are dropped (and reported to `onDrop`) so memory
+ * stays bounded.
+ */
+export function createPacketQueue<T>(maxPackets: number, onDrop?: (packet: T) => void): PacketQueue<T> {
+  let pending: T[] = [];
+  let sender: ((packet: T) => void) | null = null;
+  let droppedCount = 0;
+
+  return {
+    push: (packet) => {
+      if (sender) {
+        sender(packet);
+        return;
+      }
+      pending.push(packet);
+      if (pending.length > maxPackets) {
+        onDrop?.(pending.shift()!);
+        droppedCount++;
+      }
+    },
+    attach: (send) => {
+      sender = send;
+      const queued = pending;
+      pending = [];
+      queued.forEach(send);
+    },
+    detach: () => {
+      sender = null;
+    },
+    size: () => pending.length,
+    dropped: () => droppedCount,
+  };
+}
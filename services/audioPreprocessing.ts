@@ -0,0 +1,180 @@
+import { decodeAudioData, encodeWav, resampleAudio } from "./audioUtils";
+import { OpusPacket, createOggOpus } from "./ogg";
+
+export type PreprocessFormat = 'wav' | 'opus';
+
+export interface PreprocessOptions {
+  enabled: boolean;
+  format: PreprocessFormat;
+  trimSilence: boolean;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = { enabled: true, format: 'opus', trimSilence: false };
+
+export interface PreprocessedAudio {
+  blob: Blob;
+  mimeType: string;
+  originalSize: number;
+  originalDuration: number;
+  size: number;
+  duration: number;
+  // Seconds trimmed from the start; add it to transcript times to line them up with the original file
+  offset: number;
+}
+
+// Speech models expect 16kHz mono; anything more only inflates the upload
+const TARGET_SAMPLE_RATE = 16000;
+const OPUS_BITRATE = 24000;
+
+const FRAME_SECONDS = 0.05;
+// Loudness target and limits, as RMS of the frames that contain sound
+const TARGET_RMS_DB = -20;
+const MAX_GAIN_DB = 20;
+const ACTIVE_FRAME_DB = -50;
+
+// Only silences longer than this are trimmed, and some padding is kept around the speech
+const SILENCE_DB = -45;
+const MIN_TRIM_SECONDS = 2;
+const TRIM_PADDING_SECONDS = 0.5;
+
+const toDb = (value: number) => 20 * Math.log10(Math.max(value, 1e-9));
+
+const frameLevels = (samples: Float32Array, frameSize: number) => {
+  const levels: number[] = [];
+  for (let start = 0; start < samples.length; start += frameSize) {
+    const end = Math.min(samples.length, start + frameSize);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    levels.push(Math.sqrt(sum / (end - start)));
+  }
+  return levels;
+};
+
+/**
+ * Bring the audible part of the recording to a common loudness. The gain is
+ * capped so the loudest peak never clips.
+ */
+export function normalizeLoudness(samples: Float32Array, sampleRate: number): Float32Array {
+  const levels = frameLevels(samples, Math.round(FRAME_SECONDS * sampleRate));
+  const active = levels.filter(level => toDb(level) > ACTIVE_FRAME_DB);
+  if (!active.length) return samples;
+
+  const rms = Math.sqrt(active.reduce((sum, level) => sum + level * level, 0) / active.length);
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+
+  const gainDb = Math.min(TARGET_RMS_DB - toDb(rms), MAX_GAIN_DB, -toDb(peak));
+  const gain = 10 ** (gainDb / 20);
+  return samples.map(sample => sample * gain);
+}
+
+/**
+ * Find the stretch worth keeping once long leading and trailing silences are
+ * dropped. Returns sample offsets; the whole range when there is nothing to trim.
+ */
+export function findSpeechBounds(samples: Float32Array, sampleRate: number): { start: number; end: number } {
+  const frameSize = Math.round(FRAME_SECONDS * sampleRate);
+  const levels = frameLevels(samples, frameSize);
+  const first = levels.findIndex(level => toDb(level) > SILENCE_DB);
+  if (first < 0) return { start: 0, end: samples.length };
+  let last = levels.length - 1;
+  while (toDb(levels[last]) <= SILENCE_DB) last--;
+
+  const minTrim = MIN_TRIM_SECONDS * sampleRate;
+  const padding = TRIM_PADDING_SECONDS * sampleRate;
+  const speechStart = first * frameSize;
+  const speechEnd = Math.min(samples.length, (last + 1) * frameSize);
+  return {
+    start: speechStart > minTrim ? Math.round(speechStart - padding) : 0,
+    end: samples.length - speechEnd > minTrim ? Math.round(speechEnd + padding) : samples.length,
+  };
+}
+
+// Encode with WebCodecs into an Ogg Opus file. Null when the browser has no Opus encoder.
+async function encodeOpus(samples: Float32Array, sampleRate: number): Promise<Uint8Array | null> {
+  if (typeof AudioEncoder === 'undefined') return null;
+  const config: AudioEncoderConfig = { codec: 'opus', sampleRate, numberOfChannels: 1, bitrate: OPUS_BITRATE };
+  try {
+    if (!(await AudioEncoder.isConfigSupported(config)).supported) return null;
+  } catch {
+    return null;
+  }
+
+  const packets: OpusPacket[] = [];
+  let encodeError: unknown;
+  const encoder = new AudioEncoder({
+    output: chunk => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      // Opus frames default to 20ms when the encoder leaves the duration out
+      packets.push({ data, samples: Math.round(((chunk.duration ?? 20000) * 48000) / 1e6) });
+    },
+    error: error => {
+      encodeError = error;
+    },
+  });
+  encoder.configure(config);
+
+  // Feed one second at a time so no single AudioData holds the whole recording
+  for (let offset = 0; offset < samples.length; offset += sampleRate) {
+    const frame = samples.subarray(offset, Math.min(samples.length, offset + sampleRate));
+    const data = new AudioData({
+      format: 'f32',
+      sampleRate,
+      numberOfChannels: 1,
+      numberOfFrames: frame.length,
+      timestamp: Math.round((offset / sampleRate) * 1e6),
+      data: frame,
+    });
+    encoder.encode(data);
+    data.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (encodeError) throw encodeError;
+
+  // 312 samples is libopus' lookahead at 48kHz
+  return createOggOpus(packets, { inputSampleRate: sampleRate, preSkip: 312 });
+}
+
+/**
+ * Shrink a recording before upload: decode it (the browser extracts the audio
+ * track of video containers), downmix to 16kHz mono, normalize loudness,
+ * optionally trim long silences at either end, and encode to WAV or Ogg Opus.
+ * Opus falls back to WAV where WebCodecs cannot encode it. `maxSeconds` keeps
+ * only the beginning of the audio. Throws when the browser cannot decode the file.
+ */
+export async function preprocessAudio(
+  file: Blob,
+  { format, trimSilence }: Pick<PreprocessOptions, 'format' | 'trimSilence'>,
+  maxSeconds = Infinity
+): Promise<PreprocessedAudio> {
+  const decoded = await decodeAudioData(await file.arrayBuffer());
+  const mono = await resampleAudio(decoded, TARGET_SAMPLE_RATE, 1);
+
+  let samples = normalizeLoudness(mono.getChannelData(0), TARGET_SAMPLE_RATE);
+  let offset = 0;
+  if (trimSilence) {
+    const { start, end } = findSpeechBounds(samples, TARGET_SAMPLE_RATE);
+    samples = samples.subarray(start, end);
+    offset = start / TARGET_SAMPLE_RATE;
+  }
+  if (samples.length > maxSeconds * TARGET_SAMPLE_RATE) {
+    samples = samples.subarray(0, Math.floor(maxSeconds * TARGET_SAMPLE_RATE));
+  }
+
+  const opus = format === 'opus' ? await encodeOpus(samples, TARGET_SAMPLE_RATE) : null;
+  const blob = opus
+    ? new Blob([opus], { type: 'audio/ogg' })
+    : new Blob([encodeWav(samples, TARGET_SAMPLE_RATE)], { type: 'audio/wav' });
+
+  return {
+    blob,
+    mimeType: blob.type,
+    originalSize: file.size,
+    originalDuration: decoded.duration,
+    size: blob.size,
+    duration: samples.length / TARGET_SAMPLE_RATE,
+    offset,
+  };
+}
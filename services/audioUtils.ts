@@ -8,21 +8,44 @@ export function float32ToInt16(float32Array: Float32Array): Int16Array {
   return int16Array;
 }
 
-// Helper to base64 encode for API transmission
+// Helper to base64 encode for API transmission.
+// Bytes are converted in blocks; a per-byte string concat is very slow on large buffers.
 export function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  let binary = '';
   const bytes = new Uint8Array(buffer);
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  const blockSize = 0x8000;
+  const parts: string[] = [];
+  for (let i = 0; i < bytes.length; i += blockSize) {
+    parts.push(String.fromCharCode.apply(null, bytes.subarray(i, i + blockSize) as unknown as number[]));
   }
-  return btoa(binary);
+  return btoa(parts.join(''));
 }
 
-// Resample audio to target sample rate (16kHz for Gemini Live)
-export async function resampleAudio(audioBuffer: AudioBuffer, targetSampleRate: number): Promise<AudioBuffer> {
+// Decode base64 payloads coming from FileReader data URLs
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+// Decode a compressed audio file (MP3, M4A, WAV...) into an AudioBuffer
+export async function decodeAudioData(data: ArrayBuffer): Promise<AudioBuffer> {
+  // An offline context avoids the autoplay restrictions of a realtime AudioContext
+  const decodeContext = new OfflineAudioContext(1, 1, 44100);
+  return decodeContext.decodeAudioData(data);
+}
+
+// Resample audio to target sample rate (16kHz for Gemini Live).
+// Passing a smaller channel count lets the offline context downmix (e.g. stereo to mono).
+export async function resampleAudio(
+  audioBuffer: AudioBuffer,
+  targetSampleRate: number,
+  numberOfChannels: number = audioBuffer.numberOfChannels
+): Promise<AudioBuffer> {
   const offlineContext = new OfflineAudioContext(
-    audioBuffer.numberOfChannels,
+    numberOfChannels,
     audioBuffer.duration * targetSampleRate,
     targetSampleRate
   );
@@ -32,3 +55,40 @@ export async function resampleAudio(audioBuffer: AudioBuffer, targetSampleRate:
   bufferSource.start(0);
   return offlineContext.startRendering();
 }
+
+// Join consecutive PCM chunks into one buffer
+export function concatInt16(parts: Int16Array[]): Int16Array {
+  const out = new Int16Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    out.set(part, offset);
+    offset += part.length;
+  });
+  return out;
+}
+
+// Encode mono PCM samples as a 16-bit WAV file
+export function encodeWav(samples: Float32Array | Int16Array, sampleRate: number): ArrayBuffer {
+  const pcm = samples instanceof Int16Array ? samples : float32ToInt16(samples);
+  const buffer = new ArrayBuffer(44 + pcm.byteLength);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);         // fmt chunk size
+  view.setUint16(20, 1, true);          // PCM
+  view.setUint16(22, 1, true);          // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true);          // block align
+  view.setUint16(34, 16, true);         // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+  new Int16Array(buffer, 44).set(pcm);
+  return buffer;
+}
@@ -0,0 +1,120 @@
+export type BatchJobStatus = 'queued' | 'uploading' | 'transcribing' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchJob<T, R> {
+  id: string;
+  item: T;
+  status: BatchJobStatus;
+  // Latest progress message while the job runs
+  progress?: string;
+  error?: string;
+  result?: R;
+}
+
+// Lets a running job move between its active stages and describe its progress
+export type BatchJobReporter = (status: 'uploading' | 'transcribing', progress?: string) => void;
+
+export type BatchJobRunner<T, R> = (item: T, signal: AbortSignal, report: BatchJobReporter) => Promise<R>;
+
+export interface BatchQueue<T> {
+  add: (items: T[]) => void;
+  cancel: (id: string) => void;
+  retry: (id: string) => void;
+  // Drops a job that is not running
+  remove: (id: string) => void;
+  setConcurrency: (concurrency: number) => void;
+  // Cancels everything; the queue is unusable afterwards
+  dispose: () => void;
+}
+
+const isActive = (status: BatchJobStatus) => status === 'uploading' || status === 'transcribing';
+
+/**
+ * Runs jobs with at most `concurrency` in flight, in the order they were added.
+ * Every change is published as a fresh snapshot through `onUpdate`, so the
+ * caller can keep it in React state.
+ */
+export function createBatchQueue<T, R>(
+  run: BatchJobRunner<T, R>,
+  onUpdate: (jobs: BatchJob<T, R>[]) => void,
+  concurrency = 2
+): BatchQueue<T> {
+  let jobs: BatchJob<T, R>[] = [];
+  const controllers = new Map<string, AbortController>();
+  let disposed = false;
+
+  const update = (id: string, patch: Partial<BatchJob<T, R>>) => {
+    jobs = jobs.map(job => (job.id === id ? { ...job, ...patch } : job));
+    onUpdate(jobs);
+  };
+
+  const start = (job: BatchJob<T, R>) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    update(job.id, { status: 'uploading', progress: undefined, error: undefined });
+
+    const report: BatchJobReporter = (status, progress) => {
+      if (!controller.signal.aborted) update(job.id, { status, progress });
+    };
+
+    run(job.item, controller.signal, report)
+      .then(result => {
+        if (!controller.signal.aborted) update(job.id, { status: 'done', progress: undefined, result });
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        update(job.id, { status: 'failed', progress: undefined, error: error instanceof Error ? error.message : String(error) });
+      })
+      .finally(() => {
+        // A retry may already have started a new run for this job
+        if (controllers.get(job.id) === controller) controllers.delete(job.id);
+        pump();
+      });
+  };
+
+  const pump = () => {
+    if (disposed) return;
+    let running = jobs.filter(job => isActive(job.status)).length;
+    for (const job of jobs) {
+      if (running >= concurrency) break;
+      if (job.status !== 'queued') continue;
+      start(job);
+      running++;
+    }
+  };
+
+  return {
+    add: (items) => {
+      jobs = [...jobs, ...items.map(item => ({ id: crypto.randomUUID(), item, status: 'queued' as const }))];
+      onUpdate(jobs);
+      pump();
+    },
+    cancel: (id) => {
+      const job = jobs.find(j => j.id === id);
+      if (!job || (job.status !== 'queued' && !isActive(job.status))) return;
+      controllers.get(id)?.abort();
+      update(id, { status: 'cancelled', progress: undefined });
+      pump();
+    },
+    retry: (id) => {
+      const job = jobs.find(j => j.id === id);
+      if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+      update(id, { status: 'queued', error: undefined });
+      pump();
+    },
+    remove: (id) => {
+      const job = jobs.find(j => j.id === id);
+      if (!job || isActive(job.status)) return;
+      jobs = jobs.filter(j => j.id !== id);
+      onUpdate(jobs);
+    },
+    setConcurrency: (value) => {
+      concurrency = Math.max(1, value);
+      pump();
+    },
+    dispose: () => {
+      disposed = true;
+      controllers.forEach(controller => controller.abort());
+      controllers.clear();
+    },
+  };
+}
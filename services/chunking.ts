@@ -0,0 +1,106 @@
+import { TranscriptSegment } from "../types";
+import { parseTimestamp, formatTimestamp, getSegmentStart } from "./timeUtils";
+import { normalizeWords } from "./textUtils";
+
+export interface AudioChunk {
+  index: number;
+  start: number; // seconds, absolute position in the recording
+  end: number;
+}
+
+/**
+ * Split a recording into overlapping windows. The last window absorbs a short
+ * tail instead of producing a tiny extra request.
+ */
+export function planChunks(duration: number, windowSeconds: number, overlapSeconds: number): AudioChunk[] {
+  const chunks: AudioChunk[] = [];
+  const step = windowSeconds - overlapSeconds;
+  let start = 0;
+
+  while (start < duration) {
+    let end = Math.min(duration, start + windowSeconds);
+    if (duration - end < overlapSeconds) end = duration;
+    chunks.push({ index: chunks.length, start, end });
+    if (end >= duration) break;
+    start += step;
+  }
+  return chunks;
+}
+
+// Share of the words in `candidate` that also appear in `reference`
+function containment(candidate: string, reference: string): number {
+  const words = normalizeWords(candidate);
+  if (!words.length) return 1;
+  const referenceWords = new Set(normalizeWords(reference));
+  return words.filter(w => referenceWords.has(w)).length / words.length;
+}
+
+const DUPLICATE_THRESHOLD = 0.8;
+const SPEAKER_MATCH_THRESHOLD = 0.6;
+
+/**
+ * Merge the segments of one window into the running transcript.
+ *
+ * `segments` carry timestamps relative to the start of `chunk`. Ownership of the
+ * overlap is split at its midpoint: the previous window keeps what starts before
+ * it, the new window what starts after it. Segments from the new window whose
+ * text is already covered by the transcript are dropped, and overlap matches are
+ * used to map the new window's speaker labels onto the existing ones.
+ */
+export function mergeChunkTranscripts(
+  merged: TranscriptSegment[],
+  chunk: AudioChunk,
+  previous: AudioChunk | undefined,
+  segments: TranscriptSegment[]
+): TranscriptSegment[] {
+  let lastStart = chunk.start;
+  const incoming = segments.map(seg => {
+    const relative = parseTimestamp(seg.timestamp);
+    const start = Number.isNaN(relative) ? lastStart : chunk.start + relative;
+    lastStart = start;
+    return { seg, start };
+  });
+
+  if (!previous) {
+    return incoming.map(({ seg, start }) => ({ ...seg, start, timestamp: formatTimestamp(start) }));
+  }
+
+  const mergedStarts = merged.map(getSegmentStart);
+
+  const overlapEnd = previous.end;
+  const cut = (chunk.start + overlapEnd) / 2;
+
+  // Vote on speaker label mappings using segments said in both windows
+  const votes = new Map<string, Map<string, number>>();
+  for (const { seg, start } of incoming) {
+    if (start > overlapEnd) break;
+    merged.forEach((existing, i) => {
+      if (mergedStarts[i] < chunk.start - 5) return;
+      if (containment(seg.text, existing.text) < SPEAKER_MATCH_THRESHOLD) return;
+      const tally = votes.get(seg.speaker) ?? new Map<string, number>();
+      tally.set(existing.speaker, (tally.get(existing.speaker) ?? 0) + 1);
+      votes.set(seg.speaker, tally);
+    });
+  }
+  const speakerMap = new Map<string, string>();
+  votes.forEach((tally, label) => {
+    const [best] = [...tally.entries()].sort((a, b) => b[1] - a[1]);
+    speakerMap.set(label, best[0]);
+  });
+
+  const keptSegments = merged.filter((_, i) => mergedStarts[i] < cut);
+
+  for (const { seg, start } of incoming) {
+    if (start < cut) continue;
+    const tail = keptSegments.slice(-2).map(s => s.text).join(' ');
+    if (start <= overlapEnd && containment(seg.text, tail) >= DUPLICATE_THRESHOLD) continue;
+    keptSegments.push({
+      ...seg,
+      speaker: speakerMap.get(seg.speaker) ?? seg.speaker,
+      start,
+      timestamp: formatTimestamp(start),
+    });
+  }
+
+  return keptSegments;
+}
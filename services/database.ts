@@ -0,0 +1,77 @@
+// Shared IndexedDB connection for the meeting library and the speaker roster
+
+const DB_NAME = 'reunionai';
+// Bump when object stores or indexes change (handled in onupgradeneeded)
+const DB_VERSION = 2;
+export const MEETINGS_STORE = 'meetings';
+export const SPEAKERS_STORE = 'speakers';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/** Raised when another tab keeps an older version of the database open, so it cannot be upgraded. */
+export class DatabaseBlockedError extends Error {
+  constructor() {
+    super('Otra pestaña tiene abierta una versión anterior de la aplicación. Ciérrala y recarga esta página.');
+    this.name = 'DatabaseBlockedError';
+  }
+}
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let blocked = false;
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(MEETINGS_STORE)) {
+          const store = db.createObjectStore(MEETINGS_STORE, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+        // v2: enrolled speakers with their voice samples
+        if (!db.objectStoreNames.contains(SPEAKERS_STORE)) {
+          db.createObjectStore(SPEAKERS_STORE, { keyPath: 'id' });
+        }
+      };
+      // An older connection (e.g. another tab) is holding back the upgrade
+      request.onblocked = () => {
+        blocked = true;
+        dbPromise = null;
+        reject(new DatabaseBlockedError());
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // It opened after we gave up on it; the next call starts a fresh connection
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Step aside when a newer version of the app (e.g. in another tab) upgrades the database
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
@@ -0,0 +1,394 @@
+import { MeetingMinutes, MinutesItem, TranscriptSegment } from "../types";
+import { formatTimestamp, withSegmentTimes } from "./timeUtils";
+import { createZip } from "./zip";
+import { MeetingAnalytics } from "./speakerAnalytics";
+import { RedactionEntry } from "./redaction";
+import { TranscriptSection } from "./agenda";
+import { createRefResolver } from "./segmentRefs";
+
+export type ExportFormat = 'csv' | 'srt' | 'vtt' | 'md' | 'docx' | 'json';
+
+export interface ExportFormatInfo {
+  id: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { id: 'csv', label: 'CSV (Excel)', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  { id: 'srt', label: 'Subtítulos SRT', extension: 'srt', mimeType: 'application/x-subrip;charset=utf-8' },
+  { id: 'vtt', label: 'Subtítulos WebVTT', extension: 'vtt', mimeType: 'text/vtt;charset=utf-8' },
+  { id: 'md', label: 'Acta Markdown', extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+  { id: 'docx', label: 'Documento Word', extension: 'docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+  { id: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json;charset=utf-8' },
+];
+
+export const JSON_EXPORT_VERSION = 1;
+
+// `covered` is left out until the transcript has been mapped onto the agenda
+export interface ExportAgendaItem {
+  title: string;
+  covered?: boolean;
+}
+
+// Everything a document-style export can include. Subtitles only use the segments;
+// CSV adds the agenda section of each segment.
+export interface ExportDocument {
+  title?: string;
+  segments: TranscriptSegment[];
+  minutes?: MeetingMinutes;
+  attendees?: string[];
+  agenda?: ExportAgendaItem[];
+  sections?: TranscriptSection[];
+}
+
+const DEFAULT_TITLE = 'Acta de reunión';
+
+export interface Cue {
+  start: number;
+  end: number;
+  segment: TranscriptSegment;
+}
+
+export function buildCues(segments: TranscriptSegment[]): Cue[] {
+  return withSegmentTimes(segments).map(segment => ({ start: segment.start!, end: segment.end!, segment }));
+}
+
+// HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT)
+function formatCueTime(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.round(seconds * 1000);
+  const ms = totalMs % 1000;
+  const totalSeconds = Math.floor(totalMs / 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor((totalSeconds % 3600) / 60))}:${pad(totalSeconds % 60)}${separator}${pad(ms, 3)}`;
+}
+
+const csvField = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+const sectionTitle = (section: TranscriptSection) =>
+  section.offAgenda ? `${section.title} (fuera de la agenda)` : section.title;
+
+// Language, translation and agenda columns are only added when some segment has them
+export function serializeCsv(segments: TranscriptSegment[], sections: TranscriptSection[] = []): string {
+  const multilingual = segments.some(t => t.language || t.translation);
+  const itemTitles: string[] = [];
+  sections.forEach(section => {
+    for (let i = section.firstIndex; i <= section.lastIndex; i++) itemTitles[i] = sectionTitle(section);
+  });
+  const rows = [[
+    'Hablante', 'Género', 'Tiempo', 'Texto',
+    ...(multilingual ? ['Idioma', 'Traducción'] : []),
+    ...(sections.length ? ['Punto de la agenda'] : []),
+  ]];
+  segments.forEach((t, i) => rows.push([
+    t.speaker, t.gender, t.timestamp, t.text,
+    ...(multilingual ? [t.language ?? '', t.translation ?? ''] : []),
+    ...(sections.length ? [itemTitles[i] ?? ''] : []),
+  ]));
+  // CRLF and a BOM so Excel detects UTF-8 and keeps the accents
+  return '\uFEFF' + rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+const percent = (ratio: number) => `${(ratio * 100).toFixed(1)}%`;
+
+// One row per speaker plus a meeting-wide summary, with seconds as plain numbers for spreadsheets
+export function serializeAnalyticsCsv(analytics: MeetingAnalytics): string {
+  const rows = [[
+    'Hablante', 'Tiempo de habla (s)', 'Porcentaje', 'Turnos', 'Turno medio (s)', 'Palabras',
+    'Palabras por minuto', 'Interrupciones hechas', 'Interrupciones recibidas',
+  ]];
+  analytics.speakers.forEach(s => rows.push([
+    s.speaker, s.talkTime.toFixed(1), percent(s.share), String(s.turns), s.averageTurn.toFixed(1),
+    String(s.words), s.wordsPerMinute.toFixed(0), String(s.interruptionsMade), String(s.interruptionsReceived),
+  ]));
+  rows.push(
+    [],
+    ['Duración (s)', analytics.duration.toFixed(1)],
+    ['Solapamiento (s)', analytics.overlapTime.toFixed(1)],
+    ['Interrupciones', String(analytics.interruptions)],
+    ['Silencio', percent(analytics.silenceRatio)],
+  );
+  return '\uFEFF' + rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// Placeholder to original value, for whoever is allowed to reverse a redacted export
+export function serializeRedactionMapCsv(entries: RedactionEntry[]): string {
+  const rows = [['Marcador', 'Tipo', 'Valor original'], ...entries.map(e => [e.placeholder, e.category, e.value])];
+  return '\uFEFF' + rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+export function serializeSrt(segments: TranscriptSegment[]): string {
+  return buildCues(segments)
+    .map((cue, i) => [
+      String(i + 1),
+      `${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}`,
+      `${cue.segment.speaker}: ${cue.segment.text}`,
+      // Translations go on their own italic line, as in bilingual subtitles
+      ...(cue.segment.translation ? [`<i>${cue.segment.translation}</i>`] : []),
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export function serializeVtt(segments: TranscriptSegment[]): string {
+  const cues = buildCues(segments).map(cue => [
+    `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}`,
+    `<v ${escapeVtt(cue.segment.speaker)}>${escapeVtt(cue.segment.text)}`,
+    ...(cue.segment.translation ? [`<i>${escapeVtt(cue.segment.translation)}</i>`] : []),
+  ].join('\n'));
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+interface SpeakerTurn {
+  speaker: string;
+  start: number;
+  end: number;
+  texts: string[];
+  translations: string[];
+}
+
+// Consecutive segments from the same speaker form a single turn
+function groupTurns(cues: Cue[]): SpeakerTurn[] {
+  const turns: SpeakerTurn[] = [];
+  cues.forEach(cue => {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === cue.segment.speaker) {
+      last.end = cue.end;
+      last.texts.push(cue.segment.text);
+      if (cue.segment.translation) last.translations.push(cue.segment.translation);
+    } else {
+      turns.push({
+        speaker: cue.segment.speaker,
+        start: cue.start,
+        end: cue.end,
+        texts: [cue.segment.text],
+        translations: cue.segment.translation ? [cue.segment.translation] : [],
+      });
+    }
+  });
+  return turns;
+}
+
+// "[00:15, 01:02]" style references to the transcript, resolved against its current state
+const createRefFormatter = (segments: TranscriptSegment[]) => {
+  const resolve = createRefResolver(segments);
+  return (item: MinutesItem) => {
+    const stamps = resolve(item.segmentIndices, item.segmentStarts).map(i => segments[i].timestamp);
+    return stamps.length ? ` [${stamps.join(', ')}]` : '';
+  };
+};
+
+function minutesToMarkdown(minutes: MeetingMinutes, segments: TranscriptSegment[]): string[] {
+  const formatRefs = createRefFormatter(segments);
+  const lines = ['## Resumen', '', minutes.summary, ''];
+  if (minutes.topics.length) {
+    lines.push('## Temas', '');
+    minutes.topics.forEach(t => lines.push(`- **${t.title}:** ${t.description}${formatRefs(t)}`));
+    lines.push('');
+  }
+  if (minutes.decisions.length) {
+    lines.push('## Decisiones', '');
+    minutes.decisions.forEach(d => lines.push(`- ${d.description}${formatRefs(d)}`));
+    lines.push('');
+  }
+  if (minutes.actionItems.length) {
+    lines.push('## Tareas', '', '| Tarea | Responsable | Fecha límite |', '| --- | --- | --- |');
+    const cell = (value: string) => value.replace(/\|/g, '\\|');
+    minutes.actionItems.forEach(a => {
+      lines.push(`| ${cell(a.description)}${formatRefs(a)} | ${cell(a.owner || '—')} | ${cell(a.dueDate || '—')} |`);
+    });
+    lines.push('');
+  }
+  return lines;
+}
+
+const agendaItemLabel = ({ title, covered }: ExportAgendaItem) =>
+  covered === false ? `${title} (no se trató)` : title;
+
+// Without sections the whole transcript is one untitled block
+const transcriptBlocks = (segments: TranscriptSegment[], sections: TranscriptSection[] = []) =>
+  sections.length
+    ? sections.map(section => ({ section, first: section.firstIndex, last: section.lastIndex }))
+    : [{ section: undefined, first: 0, last: segments.length - 1 }];
+
+export function serializeMarkdown({ title = DEFAULT_TITLE, segments, minutes, attendees, agenda, sections }: ExportDocument): string {
+  const speakers = [...new Set(segments.map(s => s.speaker))];
+  const lines = [`# ${title}`, ''];
+  if (attendees?.length) lines.push(`**Asistentes:** ${attendees.join(', ')}`, '');
+  lines.push(`**Participantes:** ${speakers.join(', ')}`, '');
+  if (agenda?.length) {
+    lines.push('## Agenda', '');
+    agenda.forEach((item, i) => lines.push(
+      item.covered === undefined ? `${i + 1}. ${item.title}` : `- [${item.covered ? 'x' : ' '}] ${agendaItemLabel(item)}`
+    ));
+    lines.push('');
+  }
+  if (minutes) lines.push(...minutesToMarkdown(minutes, segments));
+  lines.push('## Transcripción', '');
+  // Times come from the whole transcript, so the last turn of a section ends where the next begins
+  const cues = buildCues(segments);
+  transcriptBlocks(segments, sections).forEach(({ section, first, last }) => {
+    if (section) lines.push(`### ${sectionTitle(section)}`, '');
+    groupTurns(cues.slice(first, last + 1)).forEach(turn => {
+      lines.push(`**${turn.speaker}** _(${formatTimestamp(turn.start)} – ${formatTimestamp(turn.end)})_`, '');
+      lines.push(turn.texts.join(' '), '');
+      if (turn.translations.length) lines.push(`> _${turn.translations.join(' ')}_`, '');
+    });
+  });
+  return lines.join('\n');
+}
+
+// Lossless: segments, minutes and agenda exactly as held in the app
+export function serializeJson({ title, segments, minutes, attendees, agenda, sections }: ExportDocument): string {
+  return JSON.stringify({
+    version: JSON_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    title,
+    attendees,
+    agenda,
+    segments,
+    sections,
+    minutes,
+  }, null, 2);
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const docxRun = (text: string, props = '') =>
+  `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+
+const docxParagraph = (runs: string) => `<w:p>${runs}</w:p>`;
+
+const docxHeading = (text: string) => docxParagraph(docxRun(text, '<w:b/><w:sz w:val="28"/>'));
+
+const docxSubheading = (text: string) => docxParagraph(docxRun(text, '<w:b/><w:sz w:val="24"/>'));
+
+function agendaToDocx(attendees: string[] = [], agenda: ExportAgendaItem[] = []): string[] {
+  const paragraphs = attendees.length
+    ? [docxParagraph(docxRun('Asistentes: ', '<w:b/>') + docxRun(attendees.join(', ')))]
+    : [];
+  if (agenda.length) {
+    paragraphs.push(docxHeading('Agenda'));
+    agenda.forEach((item, i) => paragraphs.push(docxParagraph(
+      docxRun(`${i + 1}. ${item.title}`) +
+      (item.covered === false ? docxRun(' (no se trató)', '<w:color w:val="B45309"/>') : '')
+    )));
+  }
+  return paragraphs;
+}
+
+function minutesToDocx(minutes: MeetingMinutes, segments: TranscriptSegment[]): string[] {
+  const formatRefs = createRefFormatter(segments);
+  const paragraphs = [docxHeading('Resumen'), docxParagraph(docxRun(minutes.summary))];
+  if (minutes.topics.length) {
+    paragraphs.push(docxHeading('Temas'));
+    minutes.topics.forEach(t => paragraphs.push(docxParagraph(
+      docxRun(`${t.title}: `, '<w:b/>') + docxRun(t.description + formatRefs(t))
+    )));
+  }
+  if (minutes.decisions.length) {
+    paragraphs.push(docxHeading('Decisiones'));
+    minutes.decisions.forEach(d => paragraphs.push(docxParagraph(docxRun(`• ${d.description}${formatRefs(d)}`))));
+  }
+  if (minutes.actionItems.length) {
+    paragraphs.push(docxHeading('Tareas'));
+    minutes.actionItems.forEach(a => paragraphs.push(docxParagraph(
+      docxRun(`• ${a.description}${formatRefs(a)} `) +
+      docxRun(`(${a.owner || 'Sin responsable'} · ${a.dueDate || 'Sin fecha'})`, '<w:color w:val="64748B"/>')
+    )));
+  }
+  return paragraphs;
+}
+
+const segmentToDocx = (seg: TranscriptSegment) => [
+  docxParagraph(
+    docxRun(`${seg.speaker} `, '<w:b/>') +
+    docxRun(`[${seg.timestamp}] `, '<w:color w:val="64748B"/>') +
+    docxRun(seg.text)
+  ),
+  ...(seg.translation ? [docxParagraph(docxRun(seg.translation, '<w:i/><w:color w:val="64748B"/>'))] : []),
+];
+
+export function serializeDocx({ title = DEFAULT_TITLE, segments, minutes, attendees, agenda, sections }: ExportDocument): Uint8Array {
+  const hasPreamble = !!(minutes || agenda?.length);
+  const body = [
+    docxParagraph(docxRun(title, '<w:b/><w:sz w:val="36"/>')),
+    ...agendaToDocx(attendees, agenda),
+    ...(minutes ? minutesToDocx(minutes, segments) : []),
+    ...(hasPreamble ? [docxHeading('Transcripción')] : []),
+    ...transcriptBlocks(segments, sections).flatMap(({ section, first, last }) => [
+      ...(section ? [docxSubheading(sectionTitle(section))] : []),
+      ...segments.slice(first, last + 1).flatMap(segmentToDocx),
+    ]),
+  ].join('');
+
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}<w:sectPr/></w:body></w:document>`;
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>`,
+    },
+    {
+      name: '_rels/.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`,
+    },
+    { name: 'word/document.xml', content: documentXml },
+  ]);
+}
+
+export function serializeTranscript(doc: ExportDocument, format: ExportFormat): string | Uint8Array {
+  switch (format) {
+    case 'csv': return serializeCsv(doc.segments, doc.sections);
+    case 'srt': return serializeSrt(doc.segments);
+    case 'vtt': return serializeVtt(doc.segments);
+    case 'md': return serializeMarkdown(doc);
+    case 'docx': return serializeDocx(doc);
+    case 'json': return serializeJson(doc);
+  }
+}
+
+export function exportTranscript(doc: ExportDocument, format: ExportFormat): Blob {
+  const info = EXPORT_FORMATS.find(f => f.id === format)!;
+  return new Blob([serializeTranscript(doc, format)], { type: info.mimeType });
+}
+
+// Characters Windows and macOS reject in file names
+export const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|]/g, '_');
+
+/**
+ * Bundle several transcripts into one ZIP, one file per document named after
+ * its title. Repeated titles get a numeric suffix.
+ */
+export function exportTranscriptsZip(docs: ExportDocument[], format: ExportFormat): Blob {
+  const { extension } = EXPORT_FORMATS.find(f => f.id === format)!;
+  const used = new Map<string, number>();
+  const entries = docs.map((doc, i) => {
+    const base = safeFileName(doc.title || `transcripcion_${i + 1}`);
+    const count = (used.get(base) ?? 0) + 1;
+    used.set(base, count);
+    return {
+      name: `${count > 1 ? `${base} (${count})` : base}.${extension}`,
+      content: serializeTranscript(doc, format),
+    };
+  });
+  return new Blob([createZip(entries)], { type: 'application/zip' });
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoking right after the click cancels the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
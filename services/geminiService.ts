@@ -1,23 +1,49 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { TranscriptSegment } from "../types";
+import { AgendaCoverage, AgendaItem, ChatMessage, FileTranscriptionOptions, LiveSessionCallbacks, LiveTranscriptionSession, MeetingMinutes, NamedEntity, TranscriptionOptions, TranscriptionProvider, TranscriptSegment } from "../types";
+import { arrayBufferToBase64, base64ToArrayBuffer, decodeAudioData, encodeWav, resampleAudio } from "./audioUtils";
+import { AudioChunk, mergeChunkTranscripts, planChunks } from "./chunking";
+import { formatTimestamp, getSegmentStart } from "./timeUtils";
+import { selectRelevantSegments } from "./transcriptRetrieval";
+import { AUTO_LANGUAGE, DEFAULT_LANGUAGE, languageName } from "./languages";
+import { classifyError, httpError, withRetry } from "./transcriptionErrors";
+import { createMockProvider } from "./mockTranscriptionService";
+import { normalizeSegments, parseModelArray, recoverTruncatedArray } from "./transcriptValidation";
+import { glossaryInstructions } from "./vocabulary";
+import { applyRosterConfidence, rosterInstructions } from "./speakerRoster";
+import { normalizeAgendaSections } from "./agenda";
 
-// Initialize API
-const apiKey = process.env.API_KEY || '';
-const ai = new GoogleGenAI({ apiKey });
+const FILE_MODEL_ID = "gemini-2.5-flash"; // Good balance of speed and multimodal capability
 
-/**
- * Transcribe an audio file using generateContent with a specific schema
- * to extract speaker, gender, and timestamps.
- */
-export const transcribeAudioFile = async (
-  base64Data: string,
-  mimeType: string
-): Promise<TranscriptSegment[]> => {
-  if (!apiKey) throw new Error("API Key faltante.");
+// Long recordings are transcribed in overlapping windows so each request stays
+// well below the inline payload limit and the model keeps its attention span.
+const CHUNK_SECONDS = 5 * 60;
+const CHUNK_OVERLAP_SECONDS = 15;
+const CHUNK_SAMPLE_RATE = 16000;
 
-  const modelId = "gemini-2.5-flash"; // Good balance of speed and multimodal capability
+interface ChunkContext {
+  chunk: AudioChunk;
+  total: number;
+  knownSpeakers: TranscriptSegment[];
+  overlapText: string;
+}
 
-  const prompt = `
+const DEFAULT_OPTIONS: TranscriptionOptions = { language: DEFAULT_LANGUAGE };
+
+const languageRules = ({ language, translateTo }: TranscriptionOptions) => {
+  let rules = language === AUTO_LANGUAGE
+    ? `4. Detecta el idioma de cada segmento (la reunión puede alternar idiomas) y transcribe el texto exacto en ese idioma, sin traducirlo.`
+    : `4. Transcribe el texto exacto dicho en ${languageName(language)}.`;
+  rules += `
+    5. Indica en "language" el código ISO 639-1 del idioma de cada segmento (ej. "es", "en", "pt").`;
+  if (translateTo) {
+    rules += `
+    6. Añade en "translation" la traducción del texto al ${languageName(translateTo)}. Si el segmento ya está en ${languageName(translateTo)}, déjalo vacío.`;
+  }
+  return rules;
+};
+
+const buildFilePrompt = (options: TranscriptionOptions, context?: ChunkContext) => {
+  let prompt = `
     Actúa como un transcriptor experto de reuniones.
     Analiza el archivo de audio proporcionado.
     Tu tarea es generar una transcripción estructurada.
@@ -26,25 +52,425 @@ export const transcribeAudioFile = async (
     1. Identifica a los diferentes hablantes (Ej: "Hablante 1", "Hablante 2").
     2. Estima el género de la voz (Masculino/Femenino) basándote en el tono.
     3. Proporciona una marca de tiempo aproximada (formato MM:SS) de inicio del segmento.
-    4. Transcribe el texto exacto dicho en español.
+    ${languageRules(options)}
     
     Devuelve SOLO un array JSON válido.
   `;
 
+  const glossary = glossaryInstructions(options.glossary);
+  if (glossary) {
+    prompt += `
+    ${glossary.replace(/\n/g, '\n    ')}
+    `;
+  }
+
+  const roster = rosterInstructions(options.roster);
+  if (roster) {
+    prompt += `
+    ${roster}
+    `;
+  }
+
+  if (context) {
+    prompt += `
+    Contexto: este audio es el fragmento ${context.chunk.index + 1} de ${context.total} de una reunión más larga.
+    Las marcas de tiempo deben ser relativas al inicio de este fragmento.
+    `;
+    if (context.knownSpeakers.length) {
+      const speakers = context.knownSpeakers.map(s => `${s.speaker} (${s.gender})`).join(', ');
+      prompt += `
+    En los fragmentos anteriores ya se identificaron estos hablantes: ${speakers}.
+    Reutiliza exactamente las mismas etiquetas para las mismas voces y numera a partir de ahí a los nuevos.
+    `;
+    }
+    if (context.overlapText) {
+      prompt += `
+    Los primeros ${CHUNK_OVERLAP_SECONDS} segundos se solapan con el fragmento anterior, donde se transcribió:
+    ${context.overlapText}
+    `;
+    }
+  }
+  return prompt;
+};
+
+// An empty translation means the segment was already in the target language. It
+// stays empty, so exports do not repeat the line as its own translation.
+const markTargetLanguage = (segments: TranscriptSegment[], translateTo?: string) =>
+  translateTo ? segments.map(seg => (seg.translation ? seg : { ...seg, language: seg.language ?? translateTo })) : segments;
+
+// Streams the answer so complete segments can be shown while the rest arrives.
+// Retries transient failures (rate limits, outages, unusable output) before giving up.
+const requestTranscription = async (
+  ai: GoogleGenAI,
+  base64Data: string,
+  mimeType: string,
+  prompt: string,
+  { translateTo, roster = [], signal }: FileTranscriptionOptions,
+  // Length of the audio, to reject timestamps past its end
+  maxSeconds: number,
+  onProgress?: (progress: string) => void,
+  onPartial?: (segments: TranscriptSegment[]) => void
+): Promise<TranscriptSegment[]> => withRetry(async () => {
+  const stream = await ai.models.generateContentStream({
+    model: FILE_MODEL_ID,
+    contents: {
+      parts: [
+        // Enrolled voices go first, each introduced by the name it belongs to
+        ...roster.flatMap(sample => [
+          { text: `Muestra de voz de ${sample.name}:` },
+          { inlineData: { data: sample.base64, mimeType: sample.mimeType } },
+        ]),
+        ...(roster.length ? [{ text: 'Audio de la reunión:' }] : []),
+        {
+          inlineData: {
+            data: base64Data,
+            mimeType: mimeType,
+          },
+        },
+        { text: prompt },
+      ],
+    },
+    config: {
+      abortSignal: signal,
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            speaker: { type: Type.STRING, description: "Identificador del hablante (ej. Hablante 1)" },
+            gender: { type: Type.STRING, enum: ["Masculino", "Femenino", "Desconocido"] },
+            timestamp: { type: Type.STRING, description: "Formato MM:SS" },
+            text: { type: Type.STRING, description: "El texto transcrito" },
+            language: { type: Type.STRING, description: "Código ISO 639-1 del idioma hablado" },
+            ...(translateTo && { translation: { type: Type.STRING, description: "Traducción del texto" } }),
+            ...(roster.length && { confidence: { type: Type.NUMBER, description: "Seguridad (0-1) de que la voz es de la persona nombrada" } }),
+          },
+          required: ["speaker", "gender", "timestamp", "text", "language", ...(roster.length ? ["confidence"] : [])],
+        },
+      },
+    },
+  });
+
+  let text = '';
+  let emitted = 0;
+  for await (const chunk of stream) {
+    text += chunk.text ?? '';
+    if (!onPartial) continue;
+    const items = recoverTruncatedArray(text);
+    if (items.length > emitted) {
+      emitted = items.length;
+      onPartial(markTargetLanguage(normalizeSegments(items, maxSeconds), translateTo));
+    }
+  }
+
+  const { items, truncated } = parseModelArray(text);
+  if (truncated) console.warn(`Respuesta truncada; se recuperaron ${items.length} segmentos.`);
+  return markTargetLanguage(normalizeSegments(items, maxSeconds), translateTo);
+}, {
+  signal,
+  onRetry: (attempt, error) => {
+    console.warn("Reintentando transcripción:", error.cause ?? error);
+    onProgress?.(`Reintentando (intento ${attempt + 1})...`);
+  },
+});
+
+// Decode and downmix to 16kHz mono. Returns null when the browser cannot decode the format.
+const decodeForChunking = async (base64Data: string): Promise<AudioBuffer | null> => {
+  try {
+    const decoded = await decodeAudioData(base64ToArrayBuffer(base64Data));
+    return await resampleAudio(decoded, CHUNK_SAMPLE_RATE, 1);
+  } catch (error) {
+    console.warn("No se pudo decodificar el audio, se enviará completo:", error);
+    return null;
+  }
+};
+
+/**
+ * Transcribe an audio file using generateContent with a specific schema
+ * to extract speaker, gender, and timestamps.
+ * Recordings longer than one window are split into overlapping chunks that are
+ * transcribed sequentially and stitched back into a single transcript.
+ * `options.onPartial` receives the transcript so far as segments arrive.
+ */
+export const transcribeAudioFile = async (
+  ai: GoogleGenAI,
+  base64Data: string,
+  mimeType: string,
+  onProgress?: (progress: string) => void,
+  options: FileTranscriptionOptions = DEFAULT_OPTIONS
+): Promise<TranscriptSegment[]> => {
+  // Roster names are only kept where the model is confident enough about the voice
+  const identify = (segments: TranscriptSegment[]) =>
+    options.roster?.length ? applyRosterConfidence(segments, options.roster) : segments;
+  const onPartial = options.onPartial && ((partial: TranscriptSegment[]) => options.onPartial?.(identify(partial)));
+
+  try {
+    const audio = await decodeForChunking(base64Data);
+    if (!audio || audio.duration <= CHUNK_SECONDS + CHUNK_OVERLAP_SECONDS) {
+      const maxSeconds = audio ? audio.duration + 1 : Infinity;
+      return identify(await requestTranscription(
+        ai, base64Data, mimeType, buildFilePrompt(options), options, maxSeconds, onProgress, onPartial
+      ));
+    }
+
+    const chunks = planChunks(audio.duration, CHUNK_SECONDS, CHUNK_OVERLAP_SECONDS);
+    const samples = audio.getChannelData(0);
+    let merged: TranscriptSegment[] = [];
+
+    for (const chunk of chunks) {
+      onProgress?.(`Transcribiendo fragmento ${chunk.index + 1} de ${chunks.length}...`);
+      const previous = chunks[chunk.index - 1];
+
+      const windowSamples = samples.subarray(
+        Math.floor(chunk.start * CHUNK_SAMPLE_RATE),
+        Math.floor(chunk.end * CHUNK_SAMPLE_RATE)
+      );
+      const wavBase64 = arrayBufferToBase64(encodeWav(windowSamples, CHUNK_SAMPLE_RATE));
+
+      const knownSpeakers = [...new Map(merged.map(s => [s.speaker, s])).values()];
+      const overlapText = merged
+        .filter(s => getSegmentStart(s) >= chunk.start)
+        .map(s => `${s.speaker}: ${s.text}`)
+        .join('\n');
+
+      const segments = await requestTranscription(
+        ai,
+        wavBase64,
+        'audio/wav',
+        buildFilePrompt(options, { chunk, total: chunks.length, knownSpeakers, overlapText }),
+        options,
+        chunk.end - chunk.start + 1,
+        onProgress,
+        onPartial && (partial => onPartial(mergeChunkTranscripts(merged, chunk, previous, partial)))
+      );
+      merged = mergeChunkTranscripts(merged, chunk, previous, segments);
+    }
+
+    return identify(merged);
+  } catch (error) {
+    console.error("Error en transcripción de archivo:", error);
+    throw classifyError(error);
+  }
+};
+
+// One line per segment, prefixed with its index so the model can cite it.
+// `indices` restricts the output to a subset while keeping the original numbering.
+const formatTranscriptForPrompt = (segments: TranscriptSegment[], indices: number[] = segments.map((_, i) => i)) =>
+  indices
+    .map(i => `[${i}] (${formatTimestamp(getSegmentStart(segments[i]) || 0)}) ${segments[i].speaker}: ${segments[i].text}`)
+    .join('\n');
+
+const segmentRefsSchema = {
+  type: Type.ARRAY,
+  items: { type: Type.INTEGER },
+  description: "Índices [n] de los segmentos de la transcripción que respaldan este punto",
+};
+
+// Minutes as the model returns them; every field is checked before use
+interface RawMinutes {
+  summary?: string;
+  topics?: { title?: string; description?: string; segmentIndices?: unknown }[];
+  decisions?: { description?: string; segmentIndices?: unknown }[];
+  actionItems?: { description?: string; owner?: string; dueDate?: string; segmentIndices?: unknown }[];
+}
+
+/**
+ * Generate meeting minutes (summary, topics, decisions and action items) from a
+ * finished transcript. Every item references the segments it was derived from.
+ */
+export const generateMeetingMinutes = async (
+  ai: GoogleGenAI,
+  segments: TranscriptSegment[]
+): Promise<MeetingMinutes> => {
+  const prompt = `
+    Actúa como secretario de actas de reuniones.
+    A continuación tienes la transcripción de una reunión. Cada línea empieza con su índice entre corchetes.
+
+    Genera un acta con:
+    1. Un resumen ejecutivo breve (3-5 frases).
+    2. Los temas tratados.
+    3. Las decisiones tomadas.
+    4. Las tareas acordadas, con responsable y fecha límite si se mencionan (no inventes datos que no aparezcan).
+
+    Para cada punto indica los índices de los segmentos en los que se basa.
+    Responde en español.
+
+    Transcripción:
+    ${formatTranscriptForPrompt(segments)}
+  `;
+
   try {
     const response = await ai.models.generateContent({
-      model: modelId,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              data: base64Data,
-              mimeType: mimeType,
+      model: FILE_MODEL_ID,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            summary: { type: Type.STRING, description: "Resumen ejecutivo" },
+            topics: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  title: { type: Type.STRING },
+                  description: { type: Type.STRING },
+                  segmentIndices: segmentRefsSchema,
+                },
+                required: ["title", "description", "segmentIndices"],
+              },
+            },
+            decisions: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  description: { type: Type.STRING },
+                  segmentIndices: segmentRefsSchema,
+                },
+                required: ["description", "segmentIndices"],
+              },
+            },
+            actionItems: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  description: { type: Type.STRING },
+                  owner: { type: Type.STRING, description: "Responsable, si se menciona" },
+                  dueDate: { type: Type.STRING, description: "Fecha límite tal como se mencionó, si existe" },
+                  segmentIndices: segmentRefsSchema,
+                },
+                required: ["description", "segmentIndices"],
+              },
             },
           },
-          { text: prompt },
-        ],
+          required: ["summary", "topics", "decisions", "actionItems"],
+        },
       },
+    });
+
+    const parsed: RawMinutes = JSON.parse(response.text || '{}');
+    // Drop references the model made up
+    const validRefs = (indices: unknown): number[] =>
+      Array.isArray(indices) ? indices.filter(i => Number.isInteger(i) && i >= 0 && i < segments.length) : [];
+
+    return {
+      summary: parsed.summary || '',
+      topics: (parsed.topics || []).map(t => ({
+        title: t.title || '',
+        description: t.description || '',
+        segmentIndices: validRefs(t.segmentIndices),
+      })),
+      decisions: (parsed.decisions || []).map(d => ({
+        description: d.description || '',
+        segmentIndices: validRefs(d.segmentIndices),
+      })),
+      actionItems: (parsed.actionItems || []).map(a => ({
+        description: a.description || '',
+        owner: a.owner || undefined,
+        dueDate: a.dueDate || undefined,
+        segmentIndices: validRefs(a.segmentIndices),
+      })),
+      generatedAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    console.error("Error al generar el acta:", error);
+    throw error;
+  }
+};
+
+// Previous turns sent along with a new question
+const CHAT_HISTORY_TURNS = 6;
+
+/**
+ * Answer a question about the meeting. Long transcripts are narrowed to the passages
+ * most relevant to the question (and the previous one, for follow-ups).
+ */
+export const askAboutMeeting = async (
+  ai: GoogleGenAI,
+  segments: TranscriptSegment[],
+  question: string,
+  history: ChatMessage[]
+): Promise<ChatMessage> => {
+  const recent = history.slice(-CHAT_HISTORY_TURNS);
+  const previousQuestion = [...recent].reverse().find(m => m.role === 'user')?.text ?? '';
+  const indices = selectRelevantSegments(segments, `${question} ${previousQuestion}`);
+  const excerpt = indices.length < segments.length ? ' (solo los fragmentos más relevantes)' : '';
+
+  const prompt = `
+    Eres un asistente que responde preguntas sobre una reunión a partir de su transcripción.
+    Responde solo con información presente en la transcripción; si no aparece, dilo claramente.
+    Cita los índices [n] de los segmentos en los que te basas.
+    Responde en español, de forma breve.
+
+    Transcripción${excerpt}:
+    ${formatTranscriptForPrompt(segments, indices)}
+
+    ${recent.length ? `Conversación previa:\n${recent.map(m => `${m.role === 'user' ? 'Usuario' : 'Asistente'}: ${m.text}`).join('\n')}` : ''}
+
+    Pregunta: ${question}
+  `;
+
+  try {
+    const response = await ai.models.generateContent({
+      model: FILE_MODEL_ID,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            answer: { type: Type.STRING },
+            citations: segmentRefsSchema,
+          },
+          required: ["answer", "citations"],
+        },
+      },
+    });
+
+    const parsed = JSON.parse(response.text || '{}');
+    const citations: number[] = Array.isArray(parsed.citations)
+      ? parsed.citations.filter((i: unknown) => Number.isInteger(i) && indices.includes(i as number))
+      : [];
+    return { role: 'assistant', text: parsed.answer || '', citations, createdAt: new Date().toISOString() };
+  } catch (error) {
+    console.error("Error al consultar la reunión:", error);
+    throw error;
+  }
+};
+
+/**
+ * Assign consecutive segment ranges to the agenda items they discuss, flagging
+ * off-agenda topics. Items without a range are reported as uncovered.
+ */
+export const mapAgendaItems = async (
+  ai: GoogleGenAI,
+  segments: TranscriptSegment[],
+  agenda: AgendaItem[]
+): Promise<AgendaCoverage> => {
+  const prompt = `
+    Tienes la agenda prevista de una reunión y su transcripción. Cada línea de la transcripción empieza con su índice entre corchetes.
+
+    Divide la transcripción en tramos consecutivos según el punto de la agenda que se trata en cada uno:
+    - "item" es el número del punto de la agenda, o 0 si el tramo trata un tema que no está en la agenda.
+    - Para los temas fuera de la agenda, indica en "title" un título breve del tema.
+    - "firstIndex" y "lastIndex" son los índices del primer y último segmento del tramo, ambos incluidos.
+    - Los tramos no se solapan. Un punto de la agenda puede aparecer en varios tramos; si no se trata, no lo incluyas.
+
+    Agenda:
+    ${agenda.map((item, i) => `${i + 1}. ${item.title}`).join('\n    ')}
+
+    Transcripción:
+    ${formatTranscriptForPrompt(segments)}
+  `;
+
+  try {
+    const response = await ai.models.generateContent({
+      model: FILE_MODEL_ID,
+      contents: prompt,
       config: {
         responseMimeType: "application/json",
         responseSchema: {
@@ -52,63 +478,207 @@ export const transcribeAudioFile = async (
           items: {
             type: Type.OBJECT,
             properties: {
-              speaker: { type: Type.STRING, description: "Identificador del hablante (ej. Hablante 1)" },
-              gender: { type: Type.STRING, enum: ["Masculino", "Femenino", "Desconocido"] },
-              timestamp: { type: Type.STRING, description: "Formato MM:SS" },
-              text: { type: Type.STRING, description: "El texto transcrito" },
+              item: { type: Type.INTEGER, description: "Número del punto de la agenda, 0 si está fuera de la agenda" },
+              title: { type: Type.STRING, description: "Título del tema, solo para tramos fuera de la agenda" },
+              firstIndex: { type: Type.INTEGER },
+              lastIndex: { type: Type.INTEGER },
             },
-            required: ["speaker", "gender", "timestamp", "text"],
+            required: ["item", "firstIndex", "lastIndex"],
           },
         },
       },
     });
 
-    const jsonText = response.text;
-    if (!jsonText) return [];
-    return JSON.parse(jsonText) as TranscriptSegment[];
+    return normalizeAgendaSections(JSON.parse(response.text || '[]'), agenda, segments);
   } catch (error) {
-    console.error("Error en transcripción de archivo:", error);
+    console.error("Error al asignar la agenda:", error);
+    throw error;
+  }
+};
+
+/**
+ * Find the people and organizations mentioned in a transcript, for redaction.
+ * Every distinct spelling is listed, so each one can be matched in the text.
+ */
+export const detectNamedEntities = async (
+  ai: GoogleGenAI,
+  segments: TranscriptSegment[]
+): Promise<NamedEntity[]> => {
+  const prompt = `
+    Lista las personas y organizaciones (empresas, clientes, instituciones) mencionadas en esta transcripción.
+    Escribe cada nombre exactamente como aparece en el texto. Si una misma persona aparece escrita de varias formas
+    (ej. "Ana" y "Ana García"), incluye cada forma por separado. No incluyas cargos ni nombres genéricos.
+
+    Transcripción:
+    ${formatTranscriptForPrompt(segments)}
+  `;
+
+  try {
+    const response = await ai.models.generateContent({
+      model: FILE_MODEL_ID,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              text: { type: Type.STRING },
+              category: { type: Type.STRING, enum: ["PERSONA", "ORGANIZACION"] },
+            },
+            required: ["text", "category"],
+          },
+        },
+      },
+    });
+
+    const items = JSON.parse(response.text || '[]') as NamedEntity[];
+    // Keep only names that actually occur in the transcript
+    const fullText = segments.map(s => s.text).join('\n').toLowerCase();
+    return items.filter(e => e.text?.trim() && fullText.includes(e.text.trim().toLowerCase()));
+  } catch (error) {
+    console.error("Error al detectar nombres:", error);
     throw error;
   }
 };
 
+// Segments per translation request, to keep responses well within the output limit
+const TRANSLATION_BATCH_SIZE = 80;
+
+/**
+ * Translate the text of existing segments (live or imported transcripts) into
+ * `targetLanguage`, filling in `translation`. Lines already in that language get
+ * it as their `language` instead. Everything else is left untouched.
+ */
+export const translateSegments = async (
+  ai: GoogleGenAI,
+  segments: TranscriptSegment[],
+  targetLanguage: string
+): Promise<TranscriptSegment[]> => {
+  const translations = new Map<number, string>();
+  const indices = segments.map((seg, i) => (seg.gap ? -1 : i)).filter(i => i >= 0);
+
+  try {
+    for (let from = 0; from < indices.length; from += TRANSLATION_BATCH_SIZE) {
+      const batch = indices.slice(from, from + TRANSLATION_BATCH_SIZE);
+      const response = await ai.models.generateContent({
+        model: FILE_MODEL_ID,
+        contents: `
+    Traduce al ${languageName(targetLanguage)} cada línea de esta transcripción. Cada línea empieza con su índice entre corchetes.
+    Conserva el registro y no resumas. Si una línea ya está en ${languageName(targetLanguage)}, repítela tal cual.
+
+    ${batch.map(i => `[${i}] ${segments[i].text}`).join('\n')}
+        `,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                index: { type: Type.INTEGER },
+                translation: { type: Type.STRING },
+              },
+              required: ["index", "translation"],
+            },
+          },
+        },
+      });
+      const items = JSON.parse(response.text || '[]') as { index: number; translation: string }[];
+      items.forEach(item => {
+        if (batch.includes(item.index)) translations.set(item.index, item.translation);
+      });
+    }
+  } catch (error) {
+    console.error("Error al traducir la transcripción:", error);
+    throw error;
+  }
+
+  return segments.map((seg, i) => {
+    const translation = translations.get(i)?.trim();
+    if (!translation) return seg;
+    return translation === seg.text.trim() ? { ...seg, language: targetLanguage } : { ...seg, translation };
+  });
+};
+
 /**
  * Establish a Live API connection.
  * Note: Live API is conversational. We use inputAudioTranscription to get the user's text.
  * Diarization is limited in Live mode compared to File mode.
  */
 export const connectLiveSession = async (
-  onOpen: () => void,
-  onTranscription: (text: string, isFinal: boolean) => void,
-  onClose: () => void,
-  onError: (err: any) => void
-) => {
-  if (!apiKey) throw new Error("API Key faltante.");
-
+  ai: GoogleGenAI,
+  { onOpen, onTranscription, onClose, onError, onGoAway }: LiveSessionCallbacks,
+  { language, glossary }: TranscriptionOptions = DEFAULT_OPTIONS
+): Promise<LiveTranscriptionSession> => {
+  const isAuto = language === AUTO_LANGUAGE;
+  const vocabulary = glossaryInstructions(glossary);
   const session = await ai.live.connect({
     model: 'gemini-2.5-flash-native-audio-preview-09-2025',
     config: {
-      systemInstruction: "Eres un transcriptor silencioso. Escucha el audio y transcríbelo con precisión. No respondas a las preguntas, solo transcribe.",
-      inputAudioTranscription: {
-        model: "gemini-2.5-flash-native-audio-preview-09-2025" 
-      },
+      systemInstruction: `Eres un transcriptor silencioso. Escucha el audio y transcríbelo con precisión ${isAuto ? 'en el idioma en que se hable, sin traducirlo' : `en ${languageName(language)}`}. No respondas a las preguntas, solo transcribe.${vocabulary ? `\n\n${vocabulary}` : ''}`,
+      // Without a language code the server detects it
+      inputAudioTranscription: isAuto ? {} : { languageCodes: [language] },
     },
     callbacks: {
       onopen: onOpen,
       onclose: onClose,
       onerror: onError,
       onmessage: (msg) => {
-        // Handle Input Transcription (User's voice transcribed by Gemini)
-        const inputTx = msg.serverContent?.inputTranscription;
-        if (inputTx) {
-          // Send text update. Gemini sends chunks, so we just stream the text.
-          if (inputTx.text) {
-             onTranscription(inputTx.text, !!msg.serverContent?.turnComplete);
-          }
-        }
+        // The Live API warns before it ends a session that hit its time limit
+        if (msg.goAway) onGoAway?.();
+
+        // Handle Input Transcription (User's voice transcribed by Gemini). The end of a
+        // turn often arrives in its own message, without text.
+        const text = msg.serverContent?.inputTranscription?.text ?? '';
+        const isFinal = !!(msg.serverContent?.turnComplete || msg.serverContent?.inputTranscription?.finished);
+        if (text || isFinal) onTranscription(text, isFinal);
       }
     }
   });
 
-  return session;
+  return {
+    sendAudio: (base64Pcm) =>
+      session.sendRealtimeInput({
+        media: {
+          mimeType: 'audio/pcm;rate=16000',
+          data: base64Pcm
+        }
+      }),
+    close: () => session.close(),
+  };
+};
+
+/**
+ * Gemini-backed provider. Calls go through the proxy server, which holds the
+ * API key; live sessions connect to Gemini directly with a single-use token
+ * minted by the proxy. When the proxy runs in stub mode the live session is
+ * simulated in the browser.
+ */
+export const createGeminiProvider = (proxyUrl: string = process.env.GEMINI_PROXY_URL || '/api'): TranscriptionProvider => {
+  const baseUrl = new URL(proxyUrl, window.location.origin).href.replace(/\/$/, '');
+  // The SDK refuses to run in a browser without a key; the proxy replaces this placeholder
+  const ai = new GoogleGenAI({ apiKey: 'proxy', httpOptions: { baseUrl: `${baseUrl}/gemini` } });
+
+  return {
+    id: 'gemini',
+    label: 'Gemini',
+    transcribeFile: (base64Data, mimeType, onProgress, options) =>
+      transcribeAudioFile(ai, base64Data, mimeType, onProgress, options),
+    connectLive: async (callbacks, options) => {
+      const response = await fetch(`${baseUrl}/live-token`, { method: 'POST' });
+      if (!response.ok) throw httpError(response.status, await response.text());
+      const { token, stub } = await response.json();
+      if (stub) return createMockProvider().connectLive(callbacks, options);
+      // Tokens only work with the v1alpha Live API
+      const liveAi = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+      return connectLiveSession(liveAi, callbacks, options);
+    },
+    translateSegments: (segments, targetLanguage) => translateSegments(ai, segments, targetLanguage),
+    generateMinutes: (segments) => generateMeetingMinutes(ai, segments),
+    askQuestion: (segments, question, history) => askAboutMeeting(ai, segments, question, history),
+    detectEntities: (segments) => detectNamedEntities(ai, segments),
+    mapAgenda: (segments, agenda) => mapAgendaItems(ai, segments, agenda),
+  };
 };
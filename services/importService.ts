@@ -0,0 +1,294 @@
+import { TranscriptSegment } from "../types";
+import { parseTimestamp, formatTimestamp } from "./timeUtils";
+
+export const TRANSCRIPT_EXTENSIONS = ['json', 'srt', 'vtt', 'csv'];
+
+const GENDERS: TranscriptSegment['gender'][] = ['Masculino', 'Femenino', 'Desconocido'];
+const DEFAULT_SPEAKER = 'Hablante 1';
+
+/**
+ * Raised when an imported transcript is malformed. `line` points at the
+ * offending line (1-based) when the format has meaningful lines.
+ */
+export class TranscriptImportError extends Error {
+  constructor(message: string, public line?: number) {
+    super(line !== undefined ? `Línea ${line}: ${message}` : message);
+    this.name = 'TranscriptImportError';
+  }
+}
+
+export const isTranscriptFile = (fileName: string) =>
+  TRANSCRIPT_EXTENSIONS.includes(fileName.split('.').pop()?.toLowerCase() ?? '');
+
+const requireTimestamp = (value: string, line?: number): string => {
+  const seconds = parseTimestamp(value);
+  if (Number.isNaN(seconds)) {
+    throw new TranscriptImportError(`marca de tiempo inválida "${value}"`, line);
+  }
+  return formatTimestamp(seconds);
+};
+
+const requireGender = (value: string, line?: number): TranscriptSegment['gender'] => {
+  const gender = GENDERS.find(g => g.toLowerCase() === value.trim().toLowerCase());
+  if (!gender) {
+    throw new TranscriptImportError(`género desconocido "${value}" (se esperaba ${GENDERS.join(', ')})`, line);
+  }
+  return gender;
+};
+
+// Accepts both our versioned export ({ version, segments }) and a bare array
+export function parseJsonTranscript(content: string): TranscriptSegment[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new TranscriptImportError(`JSON inválido: ${(error as Error).message}`);
+  }
+
+  const items = Array.isArray(data) ? data : (data as { segments?: unknown })?.segments;
+  if (!Array.isArray(items)) {
+    throw new TranscriptImportError('El JSON no contiene una lista de segmentos.');
+  }
+
+  return items.map((item, i) => {
+    const fail = (message: string): never => {
+      throw new TranscriptImportError(`Segmento ${i + 1}: ${message}`);
+    };
+    if (!item || typeof item !== 'object') fail('no es un objeto');
+    const { speaker, gender, timestamp, text, start, end } = item as Record<string, unknown>;
+    if (typeof speaker !== 'string' || !speaker.trim()) fail('falta el hablante');
+    if (typeof timestamp !== 'string') fail('falta la marca de tiempo');
+    if (typeof text !== 'string') fail('falta el texto');
+    if (start !== undefined && (typeof start !== 'number' || !(start >= 0))) fail('"start" debe ser un número de segundos');
+    if (end !== undefined && (typeof end !== 'number' || !(end >= 0))) fail('"end" debe ser un número de segundos');
+
+    try {
+      return {
+        ...(item as TranscriptSegment),
+        speaker: (speaker as string).trim(),
+        gender: typeof gender === 'string' ? requireGender(gender) : 'Desconocido',
+        timestamp: requireTimestamp(timestamp as string),
+        text: text as string,
+      };
+    } catch (error) {
+      return fail((error as Error).message);
+    }
+  });
+}
+
+const CUE_TIMING = /^(\S+)\s+-->\s+(\S+)/;
+
+// "00:01:02,500" / "00:01:02.500" / "01:02.500" -> seconds
+const parseCueTime = (value: string, line: number): number => {
+  const seconds = parseTimestamp(value.replace(',', '.'));
+  if (Number.isNaN(seconds)) {
+    throw new TranscriptImportError(`marca de tiempo inválida "${value}"`, line);
+  }
+  return seconds;
+};
+
+const cueTimes = (timing: RegExpMatchArray, line: number) => {
+  const start = parseCueTime(timing[1], line);
+  const end = parseCueTime(timing[2], line);
+  return { timestamp: formatTimestamp(start), start, end: end > start ? end : undefined };
+};
+
+interface CueBlock {
+  line: number;
+  lines: string[];
+}
+
+const splitBlocks = (content: string): CueBlock[] => {
+  const blocks: CueBlock[] = [];
+  let current: CueBlock | null = null;
+  content.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((text, i) => {
+    if (!text.trim()) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { line: i + 1, lines: [] };
+      blocks.push(current);
+    }
+    current.lines.push(text);
+  });
+  return blocks;
+};
+
+const SPEAKER_PREFIX = /^([^:\n]{1,40}):\s+(.*)$/s;
+
+// Our SRT export prefixes every cue with "Speaker: ". Only when all cues have the
+// prefix is it taken for a speaker; otherwise a cue like "Nota: ..." is plain text.
+const splitSpeakers = (bodies: string[]): { speaker: string; text: string }[] => {
+  const matches = bodies.map(body => body.match(SPEAKER_PREFIX));
+  if (!matches.every(Boolean)) return bodies.map(text => ({ speaker: DEFAULT_SPEAKER, text }));
+  return matches.map(match => ({ speaker: match![1].trim(), text: match![2] }));
+};
+
+// Our subtitle exports put the translation on a last, italic line
+const splitTranslation = (body: string): { body: string; translation?: string } => {
+  const match = body.match(/^([\s\S]*\S)\n<i>([\s\S]*)<\/i>$/);
+  return match ? { body: match[1], translation: match[2] } : { body };
+};
+
+export function parseSrt(content: string): TranscriptSegment[] {
+  const cues = splitBlocks(content).map(block => {
+    let timingIndex = 0;
+    if (/^\d+$/.test(block.lines[0].trim())) timingIndex = 1;
+    const timingLine = block.line + timingIndex;
+    const timing = block.lines[timingIndex]?.match(CUE_TIMING);
+    if (!timing) {
+      throw new TranscriptImportError('se esperaba una línea de tiempos "inicio --> fin"', timingLine);
+    }
+    const cue = block.lines.slice(timingIndex + 1).join('\n');
+    if (!cue.trim()) throw new TranscriptImportError('el subtítulo no tiene texto', timingLine);
+
+    return { ...splitTranslation(cue), times: cueTimes(timing, timingLine) };
+  });
+  const speakers = splitSpeakers(cues.map(cue => cue.body));
+  return cues.map(({ times, translation }, i) => ({
+    speaker: speakers[i].speaker,
+    gender: 'Desconocido',
+    ...times,
+    text: speakers[i].text,
+    ...(translation && { translation }),
+  }));
+}
+
+const unescapeVtt = (text: string) =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+export function parseVtt(content: string): TranscriptSegment[] {
+  const blocks = splitBlocks(content);
+  if (!blocks.length || !blocks[0].lines[0].startsWith('WEBVTT')) {
+    throw new TranscriptImportError('falta la cabecera WEBVTT', 1);
+  }
+
+  const segments: TranscriptSegment[] = [];
+  blocks.slice(1).forEach(block => {
+    // NOTE, STYLE and REGION blocks carry no cues
+    if (/^(NOTE|STYLE|REGION)\b/.test(block.lines[0])) return;
+
+    const timingIndex = block.lines.findIndex(l => CUE_TIMING.test(l));
+    if (timingIndex < 0 || timingIndex > 1) {
+      throw new TranscriptImportError('se esperaba una línea de tiempos "inicio --> fin"', block.line);
+    }
+    const timingLine = block.line + timingIndex;
+    const timing = block.lines[timingIndex].match(CUE_TIMING)!;
+    const cue = block.lines.slice(timingIndex + 1).join('\n');
+    if (!cue.trim()) throw new TranscriptImportError('el subtítulo no tiene texto', timingLine);
+
+    const { body, translation } = splitTranslation(cue);
+    const voice = body.match(/^<v(?:\.[^\s>]+)?\s+([^>]+)>(.*?)(?:<\/v>)?$/s);
+    // Our WebVTT export always names the speaker with a voice tag
+    const { speaker, text } = voice
+      ? { speaker: voice[1].trim(), text: voice[2] }
+      : { speaker: DEFAULT_SPEAKER, text: body.replace(/<[^>]+>/g, '') };
+    segments.push({
+      speaker: unescapeVtt(speaker),
+      gender: 'Desconocido',
+      ...cueTimes(timing, timingLine),
+      text: unescapeVtt(text),
+      ...(translation && { translation: unescapeVtt(translation) }),
+    });
+  });
+  return segments;
+}
+
+// RFC 4180 records, keeping track of the line each record starts on
+function parseCsvRecords(content: string): { line: number; fields: string[] }[] {
+  const records: { line: number; fields: string[] }[] = [];
+  const text = content.replace(/^\uFEFF/, '');
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      fields.push(field);
+      if (fields.some(f => f !== '')) records.push({ line: recordLine, fields });
+      fields = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) throw new TranscriptImportError('comillas sin cerrar', recordLine);
+  fields.push(field);
+  if (fields.some(f => f !== '')) records.push({ line: recordLine, fields });
+  return records;
+}
+
+const CSV_HEADER = ['hablante', 'género', 'tiempo', 'texto'];
+// Optional columns, found by name. Exports also add "Punto de la agenda", which only
+// helps reading the file: sections need the meeting's agenda, so it is left out.
+const CSV_LANGUAGE_COLUMN = 'idioma';
+const CSV_TRANSLATION_COLUMN = 'traducción';
+
+export function parseCsv(content: string): TranscriptSegment[] {
+  const records = parseCsvRecords(content);
+  if (!records.length) throw new TranscriptImportError('El CSV está vacío.');
+
+  const header = records[0].fields.map(f => f.trim().toLowerCase());
+  if (CSV_HEADER.some((name, i) => header[i] !== name)) {
+    throw new TranscriptImportError(`cabecera inesperada, se esperaba "Hablante,Género,Tiempo,Texto"`, records[0].line);
+  }
+  // Older exports had only these columns and did not quote the text, so stray commas
+  // split it into extra columns
+  const textOnly = header.length === CSV_HEADER.length;
+  const languageColumn = header.indexOf(CSV_LANGUAGE_COLUMN);
+  const translationColumn = header.indexOf(CSV_TRANSLATION_COLUMN);
+
+  return records.slice(1).map(({ line, fields }) => {
+    if (fields.length < 4) {
+      throw new TranscriptImportError(`se esperaban 4 columnas y hay ${fields.length}`, line);
+    }
+    const [speaker, gender, timestamp, ...rest] = fields;
+    if (!speaker.trim()) throw new TranscriptImportError('falta el hablante', line);
+    const segment: TranscriptSegment = {
+      speaker: speaker.trim(),
+      gender: requireGender(gender, line),
+      timestamp: requireTimestamp(timestamp, line),
+      text: textOnly ? rest.join(',') : rest[0],
+    };
+    if (languageColumn >= 0 && fields[languageColumn]) segment.language = fields[languageColumn];
+    if (translationColumn >= 0 && fields[translationColumn]) segment.translation = fields[translationColumn];
+    return segment;
+  });
+}
+
+export function parseTranscriptFile(fileName: string, content: string): TranscriptSegment[] {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  let segments: TranscriptSegment[];
+  switch (extension) {
+    case 'json': segments = parseJsonTranscript(content); break;
+    case 'srt': segments = parseSrt(content); break;
+    case 'vtt': segments = parseVtt(content); break;
+    case 'csv': segments = parseCsv(content); break;
+    default:
+      throw new TranscriptImportError(`Formato no soportado: .${extension}`);
+  }
+  if (!segments.length) throw new TranscriptImportError('El archivo no contiene segmentos.');
+  return segments;
+}
@@ -0,0 +1,23 @@
+// Languages offered for transcription and translation, as ISO 639-1 codes.
+// `name` is how the (Spanish) prompts refer to the language.
+export interface LanguageOption {
+  code: string;
+  label: string;
+  name: string;
+}
+
+// Let the model detect the language, segment by segment
+export const AUTO_LANGUAGE = 'auto';
+export const DEFAULT_LANGUAGE = 'es';
+
+export const LANGUAGES: LanguageOption[] = [
+  { code: 'es', label: 'Español', name: 'español' },
+  { code: 'en', label: 'English', name: 'inglés' },
+  { code: 'pt', label: 'Português', name: 'portugués' },
+  { code: 'fr', label: 'Français', name: 'francés' },
+  { code: 'de', label: 'Deutsch', name: 'alemán' },
+  { code: 'it', label: 'Italiano', name: 'italiano' },
+  { code: 'ca', label: 'Català', name: 'catalán' },
+];
+
+export const languageName = (code: string) => LANGUAGES.find(l => l.code === code)?.name ?? code;
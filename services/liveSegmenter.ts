@@ -0,0 +1,177 @@
+import { CAPTURE_SAMPLE_RATE } from "./audioCapture";
+
+// Text to add to the live transcript. `start` is the segment's start in seconds
+// from the beginning of the recording.
+export interface LiveTranscriptUpdate {
+  text: string;
+  start: number;
+  newSegment: boolean;
+  // Source the new segment was heard on, when several sources are captured
+  speaker?: string;
+}
+
+export interface LiveSegmenter {
+  // Feed every captured packet, in order; it also drives the recording clock.
+  // `channelLevels` holds one level per source, in the order of the source labels.
+  addAudio: (pcm: Int16Array, channelLevels?: number[]) => void;
+  // Feed transcription chunks; `isFinal` is the provider's end-of-turn flag
+  addText: (text: string, isFinal: boolean) => void;
+}
+
+// Pause that ends a segment
+const SILENCE_SECONDS = 0.8;
+// Segments longer than this are split at the next sentence end...
+const MAX_SEGMENT_SECONDS = 30;
+// ...or at the next chunk, when no sentence ends in time
+const HARD_MAX_SEGMENT_SECONDS = 45;
+// Speech is detected when the packet RMS clears the noise floor by this factor
+const SPEECH_TO_NOISE_RATIO = 3;
+// RMS (on a 0..1 scale) under which audio always counts as silence
+const MIN_SPEECH_RMS = 0.01;
+const NOISE_FLOOR_SMOOTHING = 0.05;
+// A source dominates when its level beats every other source by this factor...
+const SOURCE_DOMINANCE_RATIO = 2;
+// ...and a change of dominant source this long during speech starts a new segment
+const SOURCE_SWITCH_SECONDS = 0.5;
+
+const rms = (pcm: Int16Array) => {
+  let sum = 0;
+  for (let i = 0; i < pcm.length; i++) {
+    const s = pcm[i] / 0x8000;
+    sum += s * s;
+  }
+  return pcm.length ? Math.sqrt(sum / pcm.length) : 0;
+};
+
+/**
+ * Splits streamed live text into segments. Boundaries come from the provider's
+ * end-of-turn flag, from pauses found by a simple energy-based voice activity
+ * detector, and from a maximum segment length. Because transcription lags the
+ * audio, a pause only starts a new segment once speech resumes after it; text
+ * arriving before that is the tail of the previous utterance.
+ *
+ * With more than one source (e.g. microphone and shared tab), the per-source
+ * levels tell who is talking: a change of dominant source splits the segment,
+ * and each segment is labelled with the source that carried most of its speech.
+ */
+export function createLiveSegmenter(
+  onUpdate: (update: LiveTranscriptUpdate) => void,
+  sourceLabels: string[] = []
+): LiveSegmenter {
+  // Seconds of audio captured so far
+  let clock = 0;
+  let noiseFloor = MIN_SPEECH_RMS / SPEECH_TO_NOISE_RATIO;
+  let speaking = false;
+  let silenceSince: number | null = null;
+  // Onset of the most recent stretch of speech
+  let speechStart: number | null = null;
+  // Open segment, if any
+  let segmentStart: number | null = null;
+  let segmentText = '';
+  // Time of the last detected pause inside the open segment
+  let pauseAt: number | null = null;
+  let lastStart = -1;
+  // Per-source energy and dominant source of the current stretch of speech
+  let runEnergy: number[] = [];
+  let runSource: number | null = null;
+  // Since when another source has been dominating
+  let switchSince: number | null = null;
+
+  const dominantSource = (levels: number[]) => {
+    if (sourceLabels.length < 2 || levels.length < sourceLabels.length) return null;
+    const loudest = levels.indexOf(Math.max(...levels));
+    return levels.every((level, c) => c === loudest || levels[loudest] >= level * SOURCE_DOMINANCE_RATIO) ? loudest : null;
+  };
+
+  const trackSource = (levels: number[], at: number) => {
+    levels.forEach((level, c) => {
+      runEnergy[c] = (runEnergy[c] ?? 0) + level * level;
+    });
+    const source = dominantSource(levels);
+    if (source === null) return;
+    if (runSource === null || source === runSource) {
+      runSource = source;
+      switchSince = null;
+      return;
+    }
+    switchSince ??= at;
+    if (clock - switchSince >= SOURCE_SWITCH_SECONDS) {
+      // Someone else took over: treat it like a pause followed by new speech
+      if (segmentStart !== null) pauseAt = switchSince;
+      speechStart = switchSince;
+      runSource = source;
+      runEnergy = [];
+      switchSince = null;
+    }
+  };
+
+  const currentSpeaker = () => {
+    if (sourceLabels.length < 2) return undefined;
+    const best = runEnergy.length ? runEnergy.indexOf(Math.max(...runEnergy)) : runSource;
+    return best === null ? undefined : sourceLabels[best];
+  };
+
+  const closeSegment = () => {
+    segmentStart = null;
+    segmentText = '';
+    pauseAt = null;
+  };
+
+  const shouldSplit = () => {
+    if (segmentStart === null) return false;
+    // A pause followed by new speech
+    if (pauseAt !== null && speechStart !== null && speechStart >= pauseAt) return true;
+    const length = clock - segmentStart;
+    if (length >= HARD_MAX_SEGMENT_SECONDS) return true;
+    return length >= MAX_SEGMENT_SECONDS && /[.?!…]\s*$/.test(segmentText);
+  };
+
+  return {
+    addAudio: (pcm, channelLevels = []) => {
+      const packetStart = clock;
+      clock += pcm.length / CAPTURE_SAMPLE_RATE;
+
+      const level = rms(pcm);
+      const isSpeech = level > Math.max(MIN_SPEECH_RMS, noiseFloor * SPEECH_TO_NOISE_RATIO);
+      if (isSpeech) {
+        if (!speaking) {
+          speechStart = packetStart;
+          runEnergy = [];
+          runSource = null;
+          switchSince = null;
+        }
+        speaking = true;
+        silenceSince = null;
+        trackSource(channelLevels, packetStart);
+        return;
+      }
+
+      // Only silence updates the noise floor, so long speeches don't raise it
+      noiseFloor += (level - noiseFloor) * NOISE_FLOOR_SMOOTHING;
+      if (!speaking) return;
+      silenceSince ??= packetStart;
+      if (clock - silenceSince >= SILENCE_SECONDS) {
+        speaking = false;
+        if (segmentStart !== null) pauseAt = silenceSince;
+      }
+    },
+
+    addText: (text, isFinal) => {
+      if (text.trim()) {
+        if (shouldSplit()) closeSegment();
+        if (segmentStart === null) {
+          // Start at the onset of the speech being transcribed, which the text lags behind. When
+          // that speech already belongs to the previous segment (a split mid-speech), use the clock.
+          segmentStart = speechStart !== null && speechStart > lastStart ? speechStart : clock;
+          lastStart = segmentStart;
+          segmentText = text.trimStart();
+          onUpdate({ text: segmentText, start: segmentStart, newSegment: true, speaker: currentSpeaker() });
+        } else {
+          segmentText += text;
+          onUpdate({ text, start: segmentStart, newSegment: false });
+        }
+      }
+      if (isFinal) closeSegment();
+    },
+  };
+}
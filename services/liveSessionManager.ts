@@ -0,0 +1,238 @@
+import { LiveTranscriptionSession, TranscriptionOptions, TranscriptionProvider } from "../types";
+import { CAPTURE_SAMPLE_RATE, PACKET_SAMPLES, PcmPacket, createPacketQueue } from "./audioCapture";
+
+export type LiveConnectionState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+// Stretch of microphone audio that never reached the provider, in seconds from the start of the recording
+export interface AudioGap {
+  start: number;
+  end: number;
+}
+
+export interface LiveSessionManagerCallbacks {
+  // `attempt` is the reconnect attempt in progress (0 outside of reconnects)
+  onStateChange: (state: LiveConnectionState, attempt: number) => void;
+  onTranscription: (text: string, isFinal: boolean) => void;
+  onGap: (gap: AudioGap) => void;
+  // The first connection failed, or reconnecting gave up; the manager is closed
+  onFatalError: (err: unknown) => void;
+}
+
+export interface LiveSessionManager {
+  push: (packet: PcmPacket) => void;
+  stop: () => void;
+}
+
+// Audio kept while disconnected and replayed after reconnecting; older audio is reported as a gap
+const BUFFER_SECONDS = 30;
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 15000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+// Sent audio kept until a final transcription covers it, to replay after a drop
+const REPLAY_SECONDS = 10;
+// How long a session that announced its shutdown may take to finish transcribing
+const DRAIN_TIMEOUT_MS = 5000;
+
+interface TimedPacket {
+  base64: string;
+  start: number;
+  end: number;
+}
+
+// Exponential backoff with ±20% jitter
+const reconnectDelay = (attempt: number) =>
+  Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1)) * (0.8 + Math.random() * 0.4);
+
+/**
+ * Keeps a live transcription running across dropped connections and session
+ * expiry. Audio captured while disconnected is buffered and replayed once a new
+ * session opens, so the transcript has no holes unless the outage outlasts the
+ * buffer; those holes are reported through `onGap`. Audio the dropped session
+ * received but had not transcribed yet is replayed as well. A session that
+ * announces its shutdown stays open until it finishes transcribing what it got.
+ */
+export function createLiveSessionManager(
+  provider: TranscriptionProvider,
+  callbacks: LiveSessionManagerCallbacks,
+  options?: TranscriptionOptions
+): LiveSessionManager {
+  let lost: AudioGap | null = null;
+  const replayPackets = Math.ceil((REPLAY_SECONDS * CAPTURE_SAMPLE_RATE) / PACKET_SAMPLES);
+  const queue = createPacketQueue<TimedPacket>(Math.ceil((BUFFER_SECONDS * CAPTURE_SAMPLE_RATE) / PACKET_SAMPLES), packet => {
+    lost = lost ? { start: lost.start, end: packet.end } : { start: packet.start, end: packet.end };
+  });
+
+  // Seconds of audio captured so far
+  let clock = 0;
+  // When the current outage started; null while a session is receiving audio
+  let outageStart: number | null = 0;
+  let session: LiveTranscriptionSession | null = null;
+  // Bumped on every (re)connect so events from abandoned sessions are ignored
+  let generation = 0;
+  let attempt = 0;
+  let everOpened = false;
+  let stopped = false;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  // Audio from a dropped session, sent again ahead of the queue once a new one opens
+  let replay: TimedPacket[] = [];
+  // Sessions finishing their transcription after a planned rotation, with how to release them
+  const draining = new Set<() => void>();
+
+  const reportLoss = () => {
+    if (lost && lost.end > lost.start) callbacks.onGap(lost);
+    lost = null;
+  };
+
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    generation++;
+    clearTimeout(retryTimer);
+    queue.detach();
+    // Whatever is still buffered will never be sent
+    if (outageStart !== null) {
+      lost = { start: replay[0]?.start ?? lost?.start ?? outageStart, end: clock };
+    }
+    replay = [];
+    reportLoss();
+    draining.forEach(release => release());
+    session?.close();
+    session = null;
+    callbacks.onStateChange('closed', 0);
+  };
+
+  const fail = (err: unknown) => {
+    stop();
+    callbacks.onFatalError(err);
+  };
+
+  const connect = () => {
+    const id = ++generation;
+    const isCurrent = () => id === generation && !stopped;
+    callbacks.onStateChange(attempt ? 'reconnecting' : 'connecting', attempt);
+
+    let opened = false;
+    let conn: LiveTranscriptionSession | null = null;
+    // Audio sent on this connection that no final transcription has covered yet. Only
+    // the last REPLAY_SECONDS are kept; `unconfirmedStart` remembers where it began.
+    let unconfirmed: TimedPacket[] = [];
+    let unconfirmedStart: number | null = null;
+    let release: (() => void) | null = null;
+
+    const reportUnconfirmed = (until: number) => {
+      if (unconfirmedStart !== null && until > unconfirmedStart) callbacks.onGap({ start: unconfirmedStart, end: until });
+    };
+
+    // Audio flows once the socket is open and the session object is available, in either order
+    const ready = () => {
+      if (!opened || !conn || !isCurrent()) return;
+      const current = conn;
+      const send = (packet: TimedPacket) => {
+        current.sendAudio(packet.base64);
+        unconfirmedStart ??= packet.start;
+        unconfirmed.push(packet);
+        if (unconfirmed.length > replayPackets) unconfirmed.shift();
+      };
+      session = current;
+      outageStart = null;
+      attempt = 0;
+      everOpened = true;
+      const replayed = replay;
+      replay = [];
+      replayed.forEach(send);
+      queue.attach(send);
+      reportLoss();
+      callbacks.onStateChange('open', 0);
+    };
+
+    // Keep a rotated-out session until it transcribes the audio it already has
+    const drain = (current: LiveTranscriptionSession) => {
+      const timer = setTimeout(() => release?.(), DRAIN_TIMEOUT_MS);
+      release = () => {
+        clearTimeout(timer);
+        draining.delete(release!);
+        release = null;
+        // It closed or timed out before a final transcription
+        reportUnconfirmed(unconfirmed[unconfirmed.length - 1]?.end ?? 0);
+        current.close();
+      };
+      draining.add(release);
+    };
+
+    // Abandon this connection and start another, immediately for planned rotations
+    const reconnect = (err?: unknown, immediate = false) => {
+      if (!isCurrent()) return;
+      generation++;
+      queue.detach();
+      if (outageStart === null) outageStart = clock;
+      session = null;
+
+      if (immediate) {
+        if (conn && unconfirmed.length) drain(conn);
+        else conn?.close();
+        connect();
+        return;
+      }
+      conn?.close();
+      // The provider may not have transcribed what it last received; send it again,
+      // and report what no longer fits in the replay buffer
+      if (unconfirmed.length) {
+        reportUnconfirmed(unconfirmed[0].start);
+        replay = [...unconfirmed, ...replay];
+      }
+      attempt++;
+      // A session that never opened (e.g. rejected credentials) is not worth retrying
+      if (!everOpened || attempt > MAX_RECONNECT_ATTEMPTS) {
+        fail(err ?? new Error('Live session closed'));
+        return;
+      }
+      callbacks.onStateChange('reconnecting', attempt);
+      retryTimer = setTimeout(connect, reconnectDelay(attempt));
+    };
+
+    provider.connectLive({
+      onOpen: () => {
+        opened = true;
+        ready();
+      },
+      onTranscription: (text, isFinal) => {
+        if (!isCurrent() && !release) return;
+        if (isFinal) {
+          unconfirmed = [];
+          unconfirmedStart = null;
+        }
+        callbacks.onTranscription(text, isFinal);
+        if (isFinal) release?.();
+      },
+      // Closes we asked for bump the generation first, so anything reaching here is a drop
+      onClose: () => (release ? release() : reconnect()),
+      onError: (err) => {
+        console.error("Live session error:", err);
+        if (release) release();
+        else reconnect(err);
+      },
+      onGoAway: () => reconnect(undefined, true),
+    }, options).then(result => {
+      if (!isCurrent()) {
+        result.close();
+        return;
+      }
+      conn = result;
+      ready();
+    }).catch(err => {
+      reconnect(err);
+    });
+  };
+
+  connect();
+
+  return {
+    push: (packet) => {
+      if (stopped) return;
+      const start = clock;
+      clock += packet.pcm.length / CAPTURE_SAMPLE_RATE;
+      queue.push({ base64: packet.base64, start, end: clock });
+    },
+    stop,
+  };
+}
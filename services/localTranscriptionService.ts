@@ -0,0 +1,136 @@
+import { LiveTranscriptionSession, TranscriptionOptions, TranscriptionProvider, TranscriptSegment } from "../types";
+import { base64ToArrayBuffer, concatInt16, encodeWav } from "./audioUtils";
+import { formatTimestamp } from "./timeUtils";
+import { AUTO_LANGUAGE, DEFAULT_LANGUAGE } from "./languages";
+import { classifyError, httpError } from "./transcriptionErrors";
+
+export interface LocalProviderConfig {
+  // e.g. http://localhost:8080 (whisper.cpp server) or http://localhost:8000/v1 (OpenAI-compatible)
+  baseUrl: string;
+  // "/audio/transcriptions" for OpenAI-compatible servers, "/inference" for whisper.cpp
+  endpointPath?: string;
+  model?: string;
+}
+
+interface VerboseTranscription {
+  text?: string;
+  // Detected language; a code ("en") or a name ("english") depending on the server
+  language?: string;
+  segments?: { start: number; end: number; text: string }[];
+}
+
+// Local servers have no diarization, so everything lands on a single speaker
+const LOCAL_SPEAKER = 'Hablante 1';
+// Live audio is buffered and posted in windows of this length
+const LIVE_WINDOW_SECONDS = 5;
+const LIVE_SAMPLE_RATE = 16000;
+
+const postAudio = async (
+  config: LocalProviderConfig,
+  audio: Blob,
+  fileName: string,
+  { language, glossary }: TranscriptionOptions,
+  signal?: AbortSignal
+): Promise<VerboseTranscription> => {
+  const form = new FormData();
+  form.append('file', audio, fileName);
+  form.append('model', config.model || 'whisper-1');
+  form.append('response_format', 'verbose_json');
+  // Servers detect the language when none is sent
+  if (language !== AUTO_LANGUAGE) form.append('language', language);
+  // Whisper-style servers take a prompt that biases spelling towards the words it contains
+  const terms = glossary?.map(t => t.term.trim()).filter(Boolean) ?? [];
+  if (terms.length) form.append('prompt', terms.join(', '));
+
+  const url = config.baseUrl.replace(/\/$/, '') + (config.endpointPath || '/audio/transcriptions');
+  const response = await fetch(url, { method: 'POST', body: form, signal });
+  if (!response.ok) {
+    throw httpError(response.status, await response.text());
+  }
+  return response.json();
+};
+
+const toSegments = (result: VerboseTranscription, language: string): TranscriptSegment[] => {
+  const detected = language !== AUTO_LANGUAGE ? language : /^[a-z]{2}$/.test(result.language ?? '') ? result.language : undefined;
+  const segments = result.segments?.length
+    ? result.segments
+    : [{ start: 0, end: 0, text: result.text || '' }];
+
+  return segments
+    .filter(seg => seg.text.trim())
+    .map(seg => ({
+      speaker: LOCAL_SPEAKER,
+      gender: 'Desconocido',
+      timestamp: formatTimestamp(seg.start),
+      text: seg.text.trim(),
+      start: seg.start,
+      end: seg.end > seg.start ? seg.end : undefined,
+      language: detected,
+    }));
+};
+
+/**
+ * Provider for a self-hosted OpenAI-compatible or whisper.cpp-style HTTP endpoint.
+ * Live mode is emulated by posting short WAV windows of the microphone stream.
+ */
+export const createLocalProvider = (config: LocalProviderConfig): TranscriptionProvider => ({
+  id: 'local',
+  label: 'Servidor local',
+
+  // Local servers do not translate or stream, so `translateTo` and `onPartial` are ignored
+  transcribeFile: async (base64Data, mimeType, onProgress, options = { language: DEFAULT_LANGUAGE }) => {
+    onProgress?.('Enviando audio al servidor local...');
+    const audio = new Blob([base64ToArrayBuffer(base64Data)], { type: mimeType });
+    try {
+      return toSegments(await postAudio(config, audio, 'audio', options, options.signal), options.language);
+    } catch (error) {
+      console.error("Error en transcripción local:", error);
+      throw classifyError(error);
+    }
+  },
+
+  connectLive: async (
+    { onOpen, onTranscription, onClose, onError },
+    options = { language: DEFAULT_LANGUAGE }
+  ): Promise<LiveTranscriptionSession> => {
+    let pending: Int16Array[] = [];
+    let pendingSamples = 0;
+    let closed = false;
+    // Requests are chained so transcriptions arrive in recording order
+    let queue = Promise.resolve();
+
+    const flush = () => {
+      if (!pendingSamples) return;
+      const pcm = concatInt16(pending);
+      pending = [];
+      pendingSamples = 0;
+
+      const wav = new Blob([encodeWav(pcm, LIVE_SAMPLE_RATE)], { type: 'audio/wav' });
+      queue = queue
+        .then(() => postAudio(config, wav, 'live.wav', options))
+        .then(result => {
+          const text = toSegments(result, options.language).map(s => s.text).join(' ');
+          if (text) onTranscription(text + ' ', true);
+        })
+        .catch(onError);
+    };
+
+    setTimeout(onOpen, 0);
+
+    return {
+      sendAudio: (base64Pcm) => {
+        if (closed) return;
+        const part = new Int16Array(base64ToArrayBuffer(base64Pcm));
+        pending.push(part);
+        pendingSamples += part.length;
+        if (pendingSamples >= LIVE_WINDOW_SECONDS * LIVE_SAMPLE_RATE) flush();
+      },
+      close: () => {
+        if (closed) return;
+        closed = true;
+        flush();
+        queue.finally(onClose);
+      },
+    };
+  },
+});
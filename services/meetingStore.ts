@@ -0,0 +1,113 @@
+import { AgendaCoverage, AgendaItem, AppMode, ChatMessage, MeetingMinutes, TranscriptSegment } from "../types";
+import { withSegmentStarts } from "./timeUtils";
+import { MEETINGS_STORE, runRequest } from "./database";
+import { RedactionState } from "./redaction";
+
+// Bump when the shape of a stored meeting (or TranscriptSegment) changes, and add a migration below
+export const MEETING_SCHEMA_VERSION = 2;
+
+export interface Meeting {
+  id: string;
+  schemaVersion: number;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  mode: AppMode;
+  audio?: Blob;
+  audioFileName?: string;
+  // Transcript as produced by the model (or import), kept to compare against edits
+  originalSegments: TranscriptSegment[];
+  // Current, edited transcript
+  segments: TranscriptSegment[];
+  minutes?: MeetingMinutes;
+  chat?: ChatMessage[];
+  // Detected names and the placeholder mapping used to redact this meeting
+  redaction?: RedactionState;
+  // Planned before the meeting; the coverage maps the transcript onto the agenda
+  attendees?: string[];
+  agenda?: AgendaItem[];
+  agendaCoverage?: AgendaCoverage;
+}
+
+export type MeetingSummary = Omit<Meeting, 'audio' | 'originalSegments' | 'segments' | 'minutes' | 'chat' | 'redaction' | 'agendaCoverage'> & {
+  segmentCount: number;
+  hasAudio: boolean;
+};
+
+/**
+ * Record migrations, keyed by the version they upgrade FROM. Stored meetings are
+ * migrated lazily when read and written back in the current shape on next save.
+ */
+const MIGRATIONS: Record<number, (meeting: any) => any> = {
+  // v2: segments gained numeric start/end seconds (end stays optional)
+  1: meeting => ({
+    ...meeting,
+    originalSegments: withSegmentStarts(meeting.originalSegments ?? []),
+    segments: withSegmentStarts(meeting.segments ?? []),
+  }),
+};
+
+export function migrateMeeting(record: any): Meeting {
+  let meeting = record;
+  let version: number = meeting.schemaVersion ?? 0;
+  while (version < MEETING_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (migrate) meeting = migrate(meeting);
+    version++;
+  }
+  return { ...meeting, schemaVersion: MEETING_SCHEMA_VERSION };
+}
+
+const toSummary = ({ audio, originalSegments, segments, minutes, chat, redaction, agendaCoverage, ...meeting }: Meeting): MeetingSummary => ({
+  ...meeting,
+  segmentCount: segments.length,
+  hasAudio: !!audio,
+});
+
+export const createMeeting = (fields: Pick<Meeting, 'title' | 'mode'> & Partial<Meeting>): Meeting => {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    schemaVersion: MEETING_SCHEMA_VERSION,
+    createdAt: now,
+    updatedAt: now,
+    originalSegments: [],
+    segments: [],
+    ...fields,
+  };
+};
+
+// Most recently updated first
+export async function listMeetings(): Promise<MeetingSummary[]> {
+  const records = await runRequest<any[]>(MEETINGS_STORE, 'readonly', store => store.getAll());
+  return records
+    .map(record => toSummary(migrateMeeting(record)))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getMeeting(id: string): Promise<Meeting | undefined> {
+  const record = await runRequest<any>(MEETINGS_STORE, 'readonly', store => store.get(id));
+  return record ? migrateMeeting(record) : undefined;
+}
+
+export async function saveMeeting(meeting: Meeting): Promise<Meeting> {
+  const saved = { ...meeting, schemaVersion: MEETING_SCHEMA_VERSION, updatedAt: new Date().toISOString() };
+  await runRequest(MEETINGS_STORE, 'readwrite', store => store.put(saved));
+  return saved;
+}
+
+export async function renameMeeting(id: string, title: string): Promise<void> {
+  const meeting = await getMeeting(id);
+  if (meeting) await saveMeeting({ ...meeting, title });
+}
+
+export async function duplicateMeeting(id: string): Promise<Meeting | undefined> {
+  const meeting = await getMeeting(id);
+  if (!meeting) return undefined;
+  const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...fields } = meeting;
+  return saveMeeting(createMeeting({ ...fields, title: `${meeting.title} (copia)` }));
+}
+
+export async function deleteMeeting(id: string): Promise<void> {
+  await runRequest(MEETINGS_STORE, 'readwrite', store => store.delete(id));
+}
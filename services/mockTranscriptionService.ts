@@ -0,0 +1,154 @@
+import { AgendaCoverage, ChatMessage, MeetingMinutes, NamedEntity, TranscriptionProvider, TranscriptSegment, VoiceSample } from "../types";
+import { normalizeWords } from "./textUtils";
+import { TranscriptionError } from "./transcriptionErrors";
+import { normalizeAgendaSections } from "./agenda";
+
+export interface MockProviderOptions {
+  segments?: TranscriptSegment[];
+  livePhrases?: string[];
+  // Delay between scripted live phrases, in milliseconds
+  liveIntervalMs?: number;
+  // Simulated latency of a file transcription, in milliseconds
+  fileLatencyMs?: number;
+}
+
+export const MOCK_SEGMENTS: TranscriptSegment[] = [
+  { speaker: 'Hablante 1', gender: 'Femenino', timestamp: '00:00', text: 'Buenos días a todos, empecemos con la revisión del presupuesto.' },
+  { speaker: 'Hablante 2', gender: 'Masculino', timestamp: '00:07', text: 'Perfecto. El trimestre cerró un cinco por ciento por debajo de lo previsto.' },
+  { speaker: 'Hablante 1', gender: 'Femenino', timestamp: '00:15', text: 'Entonces acordamos congelar las contrataciones hasta marzo.' },
+  { speaker: 'Hablante 3', gender: 'Desconocido', timestamp: '00:22', text: 'De acuerdo, yo preparo el informe para el viernes.' },
+];
+
+export const MOCK_LIVE_PHRASES = [
+  'Hola, esto es una prueba ',
+  'de transcripción en vivo. ',
+  'El proveedor simulado no usa la red.',
+];
+
+// Marks the text with the target language instead of translating it
+const mockTranslation = (text: string, targetLanguage: string) => `[${targetLanguage}] ${text}`;
+
+// Pretends to recognize enrolled voices: speakers take the roster names in order of appearance
+const mockIdentify = (segments: TranscriptSegment[], roster: VoiceSample[] = []) => {
+  const speakers = [...new Set(segments.map(s => s.speaker))];
+  return segments.map(seg => {
+    const person = roster[speakers.indexOf(seg.speaker)];
+    return person ? { ...seg, speaker: person.name, speakerConfidence: 0.9 } : seg;
+  });
+};
+
+/**
+ * Deterministic offline provider. It always returns the same transcript and
+ * replays the same live phrases, so the UI can run without an API key.
+ */
+export const createMockProvider = ({
+  segments = MOCK_SEGMENTS,
+  livePhrases = MOCK_LIVE_PHRASES,
+  liveIntervalMs = 1000,
+  fileLatencyMs = 300,
+}: MockProviderOptions = {}): TranscriptionProvider => ({
+  id: 'mock',
+  label: 'Simulado',
+
+  // Reveals the transcript one segment per latency tick, like a streamed answer
+  transcribeFile: async (_base64Data, _mimeType, onProgress, options) => {
+    onProgress?.('Transcribiendo (simulado)...');
+    const result = mockIdentify(segments, options?.roster).map(seg => ({
+      ...seg,
+      language: 'es',
+      ...(options?.translateTo && { translation: mockTranslation(seg.text, options.translateTo) }),
+    }));
+    for (let i = 1; i <= result.length; i++) {
+      await new Promise(resolve => setTimeout(resolve, fileLatencyMs / result.length));
+      if (options?.signal?.aborted) throw new TranscriptionError('cancelled');
+      options?.onPartial?.(result.slice(0, i));
+    }
+    return result;
+  },
+
+  translateSegments: async (transcript, targetLanguage) =>
+    transcript.map(seg => (seg.gap ? seg : { ...seg, translation: mockTranslation(seg.text, targetLanguage) })),
+
+  generateMinutes: async (transcript): Promise<MeetingMinutes> => {
+    const speakers = [...new Set(transcript.map(s => s.speaker))];
+    const last = transcript.length - 1;
+    return {
+      summary: `Reunión simulada con ${speakers.length} participantes y ${transcript.length} intervenciones.`,
+      topics: transcript.length ? [{ title: 'Tema principal', description: transcript[0].text, segmentIndices: [0] }] : [],
+      decisions: transcript.length > 1 ? [{ description: transcript[1].text, segmentIndices: [1] }] : [],
+      actionItems: transcript.length
+        ? [{ description: transcript[last].text, owner: transcript[last].speaker, segmentIndices: [last] }]
+        : [],
+      generatedAt: new Date(0).toISOString(),
+    };
+  },
+
+  // Quotes the segment sharing the most words with the question
+  askQuestion: async (transcript, question): Promise<ChatMessage> => {
+    const words = new Set(normalizeWords(question));
+    let best = -1;
+    let bestScore = 0;
+    transcript.forEach((seg, i) => {
+      const score = normalizeWords(seg.text).filter(w => words.has(w)).length;
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+    const seg = transcript[best];
+    return {
+      role: 'assistant',
+      text: seg ? `Según ${seg.speaker}: "${seg.text}"` : 'No encuentro nada sobre eso en la transcripción.',
+      citations: seg ? [best] : [],
+      createdAt: new Date(0).toISOString(),
+    };
+  },
+
+  // Splits the transcript evenly over the agenda; items beyond the number of segments stay uncovered
+  mapAgenda: async (transcript, agenda): Promise<AgendaCoverage> => {
+    const covered = Math.min(agenda.length, transcript.length);
+    const size = covered ? transcript.length / covered : 0;
+    const sections = agenda.slice(0, covered).map((item, i) => ({
+      item: i + 1,
+      firstIndex: Math.round(i * size),
+      lastIndex: Math.round((i + 1) * size) - 1,
+    }));
+    return { ...normalizeAgendaSections(sections, agenda, transcript), generatedAt: new Date(0).toISOString() };
+  },
+
+  // Capitalized words that do not start a sentence are taken for names
+  detectEntities: async (transcript): Promise<NamedEntity[]> => {
+    const names = new Set<string>();
+    transcript.forEach(seg => {
+      for (const m of seg.text.matchAll(/(?<![.!?¿¡]\s*|^)\b\p{Lu}\p{Ll}+(?:\s\p{Lu}\p{Ll}+)*/gu)) names.add(m[0]);
+    });
+    return [...names].map(text => ({ text, category: 'PERSONA' }));
+  },
+
+  connectLive: async ({ onOpen, onTranscription, onClose }) => {
+    let next = 0;
+    let closed = false;
+    let timer: ReturnType<typeof setInterval> | undefined;
+
+    // Opens asynchronously like a real connection; a close before then cancels it
+    const opening = setTimeout(() => {
+      onOpen();
+      timer = setInterval(() => {
+        if (next >= livePhrases.length) return;
+        const isFinal = next === livePhrases.length - 1;
+        onTranscription(livePhrases[next++], isFinal);
+      }, liveIntervalMs);
+    }, 0);
+
+    return {
+      sendAudio: () => {},
+      close: () => {
+        if (closed) return;
+        closed = true;
+        clearTimeout(opening);
+        clearInterval(timer);
+        onClose();
+      },
+    };
+  },
+});
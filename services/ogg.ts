@@ -0,0 +1,118 @@
+// Minimal Ogg Opus writer (RFC 7845), enough to wrap packets from a WebCodecs AudioEncoder.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n << 24;
+    for (let k = 0; k < 8; k++) {
+      c = c & 0x80000000 ? (c << 1) ^ 0x04C11DB7 : c << 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// Ogg uses the unreflected CRC-32 with no final xor, unlike ZIP
+function oggCrc(data: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ data[i]) & 0xFF]) >>> 0;
+  }
+  return crc;
+}
+
+export interface OpusPacket {
+  data: Uint8Array;
+  // Length of the packet in 48kHz samples, the clock Ogg Opus granule positions use
+  samples: number;
+}
+
+export interface OggOpusOptions {
+  inputSampleRate: number;
+  // Encoder delay in 48kHz samples that players drop from the start
+  preSkip: number;
+}
+
+const SERIAL = 0x52414931;
+// Packets grouped per page; a page holds at most 255 lacing values
+const PACKETS_PER_PAGE = 50;
+
+const HEADER_FLAG_FIRST = 0x02;
+const HEADER_FLAG_LAST = 0x04;
+
+function oggPage(packets: Uint8Array[], granule: number, sequence: number, flags: number): Uint8Array {
+  const lacing: number[] = [];
+  packets.forEach(packet => {
+    for (let left = packet.length; ; left -= 255) {
+      lacing.push(Math.min(left, 255));
+      if (left < 255) break;
+    }
+  });
+  const bodySize = packets.reduce((sum, packet) => sum + packet.length, 0);
+  const page = new Uint8Array(27 + lacing.length + bodySize);
+  const view = new DataView(page.buffer);
+
+  page.set([0x4F, 0x67, 0x67, 0x53]); // "OggS"
+  view.setUint8(4, 0);                 // version
+  view.setUint8(5, flags);
+  view.setBigUint64(6, BigInt(granule), true);
+  view.setUint32(14, SERIAL, true);
+  view.setUint32(18, sequence, true);
+  view.setUint32(22, 0, true);         // CRC, filled in below
+  view.setUint8(26, lacing.length);
+  page.set(lacing, 27);
+  let offset = 27 + lacing.length;
+  packets.forEach(packet => {
+    page.set(packet, offset);
+    offset += packet.length;
+  });
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+}
+
+function opusHead({ inputSampleRate, preSkip }: OggOpusOptions): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'));
+  view.setUint8(8, 1);                   // version
+  view.setUint8(9, 1);                   // mono
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true);            // output gain
+  view.setUint8(18, 0);                  // channel mapping family
+  return head;
+}
+
+function opusTags(): Uint8Array {
+  const vendor = new TextEncoder().encode('reunionai');
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(new TextEncoder().encode('OpusTags'));
+  view.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  view.setUint32(12 + vendor.length, 0, true); // no user comments
+  return tags;
+}
+
+export function createOggOpus(packets: OpusPacket[], options: OggOpusOptions): Uint8Array {
+  const pages = [
+    oggPage([opusHead(options)], 0, 0, HEADER_FLAG_FIRST),
+    oggPage([opusTags()], 0, 1, 0),
+  ];
+
+  let granule = 0;
+  for (let i = 0; i < packets.length; i += PACKETS_PER_PAGE) {
+    const group = packets.slice(i, i + PACKETS_PER_PAGE);
+    granule += group.reduce((sum, packet) => sum + packet.samples, 0);
+    const isLast = i + PACKETS_PER_PAGE >= packets.length;
+    pages.push(oggPage(group.map(packet => packet.data), granule, pages.length, isLast ? HEADER_FLAG_LAST : 0));
+  }
+
+  const ogg = new Uint8Array(pages.reduce((sum, page) => sum + page.length, 0));
+  let offset = 0;
+  pages.forEach(page => {
+    ogg.set(page, offset);
+    offset += page.length;
+  });
+  return ogg;
+}
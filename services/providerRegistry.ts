@@ -0,0 +1,37 @@
+import { TranscriptionProvider } from "../types";
+import { createGeminiProvider } from "./geminiService";
+import { createLocalProvider } from "./localTranscriptionService";
+import { createMockProvider } from "./mockTranscriptionService";
+
+export type ProviderId = 'gemini' | 'local' | 'mock';
+
+const PROVIDER_IDS: ProviderId[] = ['gemini', 'local', 'mock'];
+
+/**
+ * Resolve the provider chosen at startup. A `?provider=` query parameter wins
+ * over the TRANSCRIPTION_PROVIDER environment variable; Gemini is the default.
+ */
+export const resolveProviderId = (): ProviderId => {
+  const fromQuery = new URLSearchParams(window.location.search).get('provider');
+  const requested = fromQuery || process.env.TRANSCRIPTION_PROVIDER || 'gemini';
+  if (PROVIDER_IDS.includes(requested as ProviderId)) return requested as ProviderId;
+
+  console.warn(`Proveedor de transcripción desconocido "${requested}", se usará Gemini.`);
+  return 'gemini';
+};
+
+export const createTranscriptionProvider = (id: ProviderId = resolveProviderId()): TranscriptionProvider => {
+  switch (id) {
+    case 'local':
+      return createLocalProvider({
+        baseUrl: process.env.LOCAL_TRANSCRIPTION_URL || 'http://localhost:8080/v1',
+        endpointPath: process.env.LOCAL_TRANSCRIPTION_PATH || undefined,
+        model: process.env.LOCAL_TRANSCRIPTION_MODEL || undefined,
+      });
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider();
+  }
+};
@@ -0,0 +1,173 @@
+import { MeetingMinutes, NamedEntity, TranscriptSegment } from "../types";
+import { wordPattern } from "./vocabulary";
+
+export type PiiCategory = 'PERSONA' | 'ORGANIZACION' | 'EMAIL' | 'TELEFONO' | 'DNI' | 'IBAN';
+
+// One line of the reversible mapping: `placeholder` replaces every occurrence of `value`
+export interface RedactionEntry {
+  placeholder: string;
+  category: PiiCategory;
+  value: string;
+}
+
+// Stored with the meeting so placeholders stay stable and can be reversed
+export interface RedactionState {
+  entities: NamedEntity[];
+  entries: RedactionEntry[];
+}
+
+export const EMPTY_REDACTION: RedactionState = { entities: [], entries: [] };
+
+export const PII_CATEGORY_LABELS: Record<PiiCategory, string> = {
+  PERSONA: 'Personas',
+  ORGANIZACION: 'Organizaciones',
+  EMAIL: 'Correos',
+  TELEFONO: 'Teléfonos',
+  DNI: 'DNI / NIE',
+  IBAN: 'IBAN',
+};
+
+interface Detector {
+  category: PiiCategory;
+  pattern: RegExp;
+  // Rejects matches with the right shape but the wrong content
+  accept?: (match: string) => boolean;
+}
+
+const digitCount = (text: string) => text.replace(/\D/g, '').length;
+
+// Transcribed numbers are often slightly wrong, so check digits are not verified:
+// redacting a near-miss is better than leaking it
+const DETECTORS: Detector[] = [
+  { category: 'EMAIL', pattern: /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu },
+  {
+    category: 'IBAN',
+    pattern: /\b[A-Z]{2}\d{2}(?:[ -]?[A-Z0-9]{2,4}){3,8}\b/g,
+    accept: match => match.replace(/[ -]/g, '').length >= 15,
+  },
+  { category: 'DNI', pattern: /\b(?:\d{8}|[XYZ][ -]?\d{7})[ -]?[A-Z]\b/g },
+  {
+    category: 'TELEFONO',
+    pattern: /(?<![\w+])(?:\+|00)?\d[\d .-]{7,16}\d(?!\d)/g,
+    // International numbers carry a prefix; without one, a Spanish number has 9 digits
+    accept: match => /^(\+|00)/.test(match) ? digitCount(match) >= 10 : digitCount(match) === 9 && /^[6789]/.test(match),
+  },
+];
+
+interface Match {
+  start: number;
+  end: number;
+  category: PiiCategory;
+  value: string;
+}
+
+// Where matches overlap the longer one wins, so "Banco Santander" is not split up
+function findMatches(text: string, entities: NamedEntity[]): Match[] {
+  const matches: Match[] = [];
+  entities.forEach(({ text: name, category }) => {
+    for (const m of text.matchAll(wordPattern(name, false))) {
+      matches.push({ start: m.index, end: m.index + m[0].length, category, value: m[0] });
+    }
+  });
+  DETECTORS.forEach(({ category, pattern, accept }) => {
+    for (const m of text.matchAll(pattern)) {
+      const value = m[0].trim();
+      if (!accept || accept(value)) matches.push({ start: m.index, end: m.index + value.length, category, value });
+    }
+  });
+
+  // Earliest first, longest first on ties; anything overlapping a kept match is dropped
+  matches.sort((a, b) => a.start - b.start || b.end - a.end);
+  const kept: Match[] = [];
+  matches.forEach(match => {
+    if (!kept.length || match.start >= kept[kept.length - 1].end) kept.push(match);
+  });
+  return kept;
+}
+
+// Spelling variants of the same value share a placeholder
+const normalizeValue = (category: PiiCategory, value: string) =>
+  category === 'PERSONA' || category === 'ORGANIZACION' || category === 'EMAIL'
+    ? value.toLowerCase().replace(/\s+/g, ' ')
+    : value.toUpperCase().replace(/[^A-Z0-9+]/g, '');
+
+const GENERIC_SPEAKER = /^Hablante \d+$/;
+
+/**
+ * Redacts text with consistent placeholders. Values already in `entries` keep
+ * their placeholder; new ones get the next number of their category, so the
+ * returned `entries` extend the given ones.
+ */
+export const createRedactor = (state: RedactionState, speakers: string[] = []) => {
+  const entries = [...state.entries];
+  const byValue = new Map(entries.map(e => [`${e.category}:${normalizeValue(e.category, e.value)}`, e]));
+  // Speakers named by the user or the roster are people too
+  const entities: NamedEntity[] = [
+    ...state.entities,
+    ...speakers.filter(s => s.trim() && !GENERIC_SPEAKER.test(s)).map(text => ({ text, category: 'PERSONA' as const })),
+  ].filter(e => e.text.trim());
+
+  const placeholderFor = (category: PiiCategory, value: string) => {
+    const key = `${category}:${normalizeValue(category, value)}`;
+    let entry = byValue.get(key);
+    if (!entry) {
+      const number = entries.filter(e => e.category === category).length + 1;
+      entry = { placeholder: `[${category}_${number}]`, category, value };
+      entries.push(entry);
+      byValue.set(key, entry);
+    }
+    return entry.placeholder;
+  };
+
+  const redact = (text: string) => {
+    let result = '';
+    let last = 0;
+    findMatches(text, entities).forEach(({ start, end, category, value }) => {
+      result += text.slice(last, start) + placeholderFor(category, value);
+      last = end;
+    });
+    return result + text.slice(last);
+  };
+
+  return { redact, placeholderFor, entries };
+};
+
+/**
+ * Redacted copy of a transcript: text, translations and named speakers are
+ * masked, as are the names in `people` (e.g. the attendees) wherever they appear.
+ * `redactor.entries` is the mapping after this pass, to be stored for reversal;
+ * the redactor can mask related text (e.g. the minutes) consistently.
+ */
+export function redactTranscript(segments: TranscriptSegment[], state: RedactionState, people: string[] = []) {
+  const speakers = [...new Set(segments.filter(s => !s.gap).map(s => s.speaker))];
+  const redactor = createRedactor(state, [...speakers, ...people]);
+  const redacted = segments.map(seg => seg.gap ? seg : {
+    ...seg,
+    speaker: GENERIC_SPEAKER.test(seg.speaker) ? seg.speaker : redactor.placeholderFor('PERSONA', seg.speaker),
+    text: redactor.redact(seg.text),
+    ...(seg.translation && { translation: redactor.redact(seg.translation) }),
+  });
+  return { segments: redacted, redactor };
+}
+
+export function redactMinutes(minutes: MeetingMinutes, redact: (text: string) => string): MeetingMinutes {
+  return {
+    ...minutes,
+    summary: redact(minutes.summary),
+    topics: minutes.topics.map(t => ({ ...t, title: redact(t.title), description: redact(t.description) })),
+    decisions: minutes.decisions.map(d => ({ ...d, description: redact(d.description) })),
+    actionItems: minutes.actionItems.map(a => ({
+      ...a,
+      description: redact(a.description),
+      ...(a.owner && { owner: redact(a.owner) }),
+    })),
+  };
+}
+
+/**
+ * Put the original values back into redacted text.
+ */
+export function restoreText(text: string, entries: RedactionEntry[]): string {
+  const values = new Map(entries.map(e => [e.placeholder, e.value]));
+  return text.replace(/\[[A-Z]+_\d+\]/g, placeholder => values.get(placeholder) ?? placeholder);
+}
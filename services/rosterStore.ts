@@ -0,0 +1,28 @@
+import { TranscriptSegment } from "../types";
+import { SPEAKERS_STORE, runRequest } from "./database";
+
+export interface RosterSpeaker {
+  id: string;
+  name: string;
+  gender: TranscriptSegment['gender'];
+  // Short reference recording of the person's voice, already preprocessed
+  sample: Blob;
+  sampleDuration: number;
+  // Excluded speakers stay enrolled but are not sent with transcriptions
+  enabled: boolean;
+  createdAt: string;
+}
+
+// In enrollment order
+export async function listSpeakers(): Promise<RosterSpeaker[]> {
+  const records = await runRequest<RosterSpeaker[]>(SPEAKERS_STORE, 'readonly', store => store.getAll());
+  return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function saveSpeaker(speaker: RosterSpeaker): Promise<void> {
+  await runRequest(SPEAKERS_STORE, 'readwrite', store => store.put(speaker));
+}
+
+export async function deleteSpeaker(id: string): Promise<void> {
+  await runRequest(SPEAKERS_STORE, 'readwrite', store => store.delete(id));
+}
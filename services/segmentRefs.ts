@@ -0,0 +1,45 @@
+import { ChatMessage, MeetingMinutes, MinutesItem, TranscriptSegment } from "../types";
+import { getSegmentStart, withSegmentTimes } from "./timeUtils";
+
+// Starts are compared with some slack, as they may have been rounded on the way
+const START_TOLERANCE = 0.01;
+
+/**
+ * Start times of the referenced segments. The model cites indices, which shift
+ * when segments are deleted, merged, split or inserted before them; the start
+ * time identifies the segment again after such edits.
+ */
+export const anchorRefs = (indices: number[], segments: TranscriptSegment[]): number[] =>
+  indices.filter(i => segments[i]).map(i => getSegmentStart(segments[i]));
+
+export const anchorCitations = (message: ChatMessage, segments: TranscriptSegment[]): ChatMessage =>
+  message.citations ? { ...message, citationStarts: anchorRefs(message.citations, segments) } : message;
+
+export const anchorMinutes = (minutes: MeetingMinutes, segments: TranscriptSegment[]): MeetingMinutes => {
+  const anchor = <T extends MinutesItem>(item: T): T => ({ ...item, segmentStarts: anchorRefs(item.segmentIndices, segments) });
+  return {
+    ...minutes,
+    topics: minutes.topics.map(anchor),
+    decisions: minutes.decisions.map(anchor),
+    actionItems: minutes.actionItems.map(anchor),
+  };
+};
+
+/**
+ * Resolves references against the transcript as it is now. An anchored segment
+ * is found by its start time, or, once merged into another, by the segment that
+ * covers that time; references to deleted segments are dropped. References
+ * stored before anchoring existed can only use their indices.
+ */
+export const createRefResolver = (segments: TranscriptSegment[]) => {
+  const timed = withSegmentTimes(segments);
+  const find = (start: number) => {
+    const exact = timed.findIndex(s => !s.gap && Math.abs(s.start! - start) < START_TOLERANCE);
+    return exact >= 0 ? exact : timed.findIndex(s => !s.gap && s.start! <= start && start < s.end!);
+  };
+
+  return (indices: number[], starts?: number[]): number[] => {
+    if (!starts) return indices.filter(i => segments[i]);
+    return [...new Set(starts.map(find).filter(i => i >= 0))];
+  };
+};
@@ -0,0 +1,146 @@
+import { TranscriptSegment } from "../types";
+import { withSegmentTimes } from "./timeUtils";
+
+export interface SpeakerStats {
+  speaker: string;
+  // Seconds spoken, without double counting the speaker's own overlapping segments
+  talkTime: number;
+  // Share of all talk time, 0-1
+  share: number;
+  turns: number;
+  averageTurn: number;
+  words: number;
+  wordsPerMinute: number;
+  // Turns started while someone else was still speaking
+  interruptionsMade: number;
+  interruptionsReceived: number;
+}
+
+export interface SpeakerInterval {
+  start: number;
+  end: number;
+  // Index of the segment in the transcript it was computed from
+  index: number;
+}
+
+export interface MeetingAnalytics {
+  duration: number;
+  speakers: SpeakerStats[];
+  // Time during which two or more people spoke at once
+  overlapTime: number;
+  interruptions: number;
+  // Share of the meeting in which nobody spoke, 0-1
+  silenceRatio: number;
+  // Per-speaker intervals for the timeline, in order of first appearance
+  lanes: { speaker: string; intervals: SpeakerInterval[] }[];
+  // Without real end times, segment ends are estimated and never overlap
+  hasEndTimes: boolean;
+}
+
+// A new turn has to start this far before the other speaker finishes to count as an interruption
+const INTERRUPTION_TOLERANCE_SECONDS = 0.3;
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// Total length covered by intervals, counting overlapping stretches once
+function unionLength(intervals: { start: number; end: number }[]): number {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start);
+  let total = 0;
+  let coveredUntil = -Infinity;
+  sorted.forEach(({ start, end }) => {
+    const from = Math.max(start, coveredUntil);
+    if (end > from) total += end - from;
+    coveredUntil = Math.max(coveredUntil, end);
+  });
+  return total;
+}
+
+// Time covered by at least two intervals
+function overlapLength(intervals: { start: number; end: number }[]): number {
+  const events = intervals.flatMap(({ start, end }) => [{ at: start, delta: 1 }, { at: end, delta: -1 }]);
+  // Ends before starts at the same instant, so back-to-back segments do not overlap
+  events.sort((a, b) => a.at - b.at || a.delta - b.delta);
+  let active = 0;
+  let last = 0;
+  let total = 0;
+  events.forEach(({ at, delta }) => {
+    if (active >= 2) total += at - last;
+    active += delta;
+    last = at;
+  });
+  return total;
+}
+
+/**
+ * Talk-time, turn-taking and interruption statistics for a transcript. Gap
+ * markers are ignored; segment ends are estimated where the transcript has none.
+ */
+export function computeSpeakerAnalytics(segments: TranscriptSegment[]): MeetingAnalytics {
+  const timed = withSegmentTimes(segments)
+    .map((seg, index) => ({ seg, index, start: seg.start!, end: seg.end! }))
+    .filter(({ seg }) => !seg.gap);
+
+  const lanes = new Map<string, SpeakerInterval[]>();
+  const words = new Map<string, number>();
+  const turns = new Map<string, number>();
+  const made = new Map<string, number>();
+  const received = new Map<string, number>();
+  const bump = (map: Map<string, number>, key: string, by = 1) => map.set(key, (map.get(key) ?? 0) + by);
+
+  let interruptions = 0;
+  let previousSpeaker: string | undefined;
+  timed.forEach(({ seg, index, start, end }, i) => {
+    if (!lanes.has(seg.speaker)) lanes.set(seg.speaker, []);
+    lanes.get(seg.speaker)!.push({ start, end, index });
+    bump(words, seg.speaker, countWords(seg.text));
+
+    if (seg.speaker === previousSpeaker) return;
+    bump(turns, seg.speaker);
+    previousSpeaker = seg.speaker;
+
+    // Whoever is still mid-segment when this turn starts was interrupted
+    const interrupted = new Set<string>();
+    for (let j = i - 1; j >= 0; j--) {
+      const other = timed[j];
+      if (other.seg.speaker !== seg.speaker && other.end - start > INTERRUPTION_TOLERANCE_SECONDS) {
+        interrupted.add(other.seg.speaker);
+      }
+    }
+    interrupted.forEach(speaker => bump(received, speaker));
+    if (interrupted.size) {
+      bump(made, seg.speaker);
+      interruptions++;
+    }
+  });
+
+  const duration = timed.reduce((max, { end }) => Math.max(max, end), 0);
+  const talkTimes = new Map([...lanes].map(([speaker, intervals]) => [speaker, unionLength(intervals)]));
+  const totalTalk = [...talkTimes.values()].reduce((sum, t) => sum + t, 0);
+
+  const speakers = [...lanes.keys()].map(speaker => {
+    const talkTime = talkTimes.get(speaker)!;
+    const turnCount = turns.get(speaker) ?? 0;
+    const wordCount = words.get(speaker) ?? 0;
+    return {
+      speaker,
+      talkTime,
+      share: totalTalk ? talkTime / totalTalk : 0,
+      turns: turnCount,
+      averageTurn: turnCount ? talkTime / turnCount : 0,
+      words: wordCount,
+      wordsPerMinute: talkTime ? wordCount / (talkTime / 60) : 0,
+      interruptionsMade: made.get(speaker) ?? 0,
+      interruptionsReceived: received.get(speaker) ?? 0,
+    };
+  });
+
+  return {
+    duration,
+    speakers: speakers.sort((a, b) => b.talkTime - a.talkTime),
+    overlapTime: overlapLength(timed),
+    interruptions,
+    silenceRatio: duration ? 1 - unionLength(timed) / duration : 0,
+    lanes: [...lanes].map(([speaker, intervals]) => ({ speaker, intervals })),
+    hasEndTimes: segments.some(seg => !seg.gap && typeof seg.end === 'number'),
+  };
+}
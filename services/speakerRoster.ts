@@ -0,0 +1,68 @@
+import { TranscriptSegment, VoiceSample } from "../types";
+
+// Below this average confidence a name is not trusted and the speaker gets a generic label
+export const ROSTER_CONFIDENCE_THRESHOLD = 0.6;
+// Enrollment clips are cut to this length; a few seconds of speech are enough to recognize a voice
+export const MAX_SAMPLE_SECONDS = 20;
+
+const GENERIC_LABEL = /^Hablante (\d+)$/;
+
+/**
+ * Prompt rules for naming enrolled speakers. The clips themselves are sent as
+ * separate parts, each preceded by "Muestra de voz de <nombre>".
+ */
+export function rosterInstructions(roster: VoiceSample[] = []): string {
+  if (!roster.length) return '';
+  const names = roster.map(s => `"${s.name}"`).join(', ');
+  return `Antes de la reunión se han incluido muestras de voz de estas personas: ${names}.
+    Si la voz de un hablante coincide con una muestra, usa exactamente ese nombre como "speaker"; si no, usa "Hablante N".
+    Indica en "confidence" tu seguridad de 0 a 1 de que la voz es de esa persona (0 para los "Hablante N").`;
+}
+
+/**
+ * Enforce the confidence threshold per speaker. A roster name keeps its segments
+ * only when their length-weighted average confidence reaches `threshold`;
+ * otherwise all of them move to a new generic "Hablante N" label. Named speakers
+ * take the gender enrolled for them when it is known.
+ */
+export function applyRosterConfidence(
+  segments: TranscriptSegment[],
+  roster: VoiceSample[],
+  threshold = ROSTER_CONFIDENCE_THRESHOLD
+): TranscriptSegment[] {
+  const enrolled = new Map(roster.map(s => [s.name.toLowerCase(), s]));
+  const totals = new Map<string, { weighted: number; weight: number }>();
+  segments.forEach(seg => {
+    if (!enrolled.has(seg.speaker.toLowerCase())) return;
+    const weight = Math.max(1, seg.text.length);
+    const total = totals.get(seg.speaker) ?? { weighted: 0, weight: 0 };
+    total.weighted += (seg.speakerConfidence ?? 0) * weight;
+    total.weight += weight;
+    totals.set(seg.speaker, total);
+  });
+
+  let nextGeneric = segments.reduce((max, seg) => {
+    const match = GENERIC_LABEL.exec(seg.speaker);
+    return match ? Math.max(max, Number(match[1])) : max;
+  }, 0) + 1;
+  const relabel = new Map<string, string>();
+  totals.forEach(({ weighted, weight }, speaker) => {
+    if (weighted / weight < threshold) relabel.set(speaker, `Hablante ${nextGeneric++}`);
+  });
+
+  return segments.map(seg => {
+    const person = enrolled.get(seg.speaker.toLowerCase());
+    const generic = relabel.get(seg.speaker);
+    if (!person || generic) {
+      // Confidence only describes a match with an enrolled person
+      const { speakerConfidence: _confidence, ...rest } = seg;
+      return generic ? { ...rest, speaker: generic } : rest;
+    }
+    // Use the enrolled spelling and gender for recognized people
+    return {
+      ...seg,
+      speaker: person.name,
+      gender: person.gender !== 'Desconocido' ? person.gender : seg.gender,
+    };
+  });
+}
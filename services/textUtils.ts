@@ -0,0 +1,9 @@
+// Lowercase, accent-free word list used for fuzzy text comparisons
+export const normalizeWords = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
@@ -0,0 +1,80 @@
+import { TranscriptSegment } from "../types";
+
+// Parse "MM:SS" or "HH:MM:SS" timestamps into seconds. Returns NaN when malformed.
+export function parseTimestamp(timestamp: string): number {
+  const parts = timestamp.trim().split(':');
+  if (parts.length < 2 || parts.length > 3) return NaN;
+  let seconds = 0;
+  for (const part of parts) {
+    if (!/^\d+(\.\d+)?$/.test(part)) return NaN;
+    seconds = seconds * 60 + parseFloat(part);
+  }
+  return seconds;
+}
+
+// Format seconds as "MM:SS", or "H:MM:SS" once the recording passes the hour mark
+export function formatTimestamp(totalSeconds: number): string {
+  const safe = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(safe / 3600);
+  const minutes = Math.floor((safe % 3600) / 60);
+  const seconds = safe % 60;
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+// Start of a segment in seconds, falling back to the legacy "MM:SS" string. NaN when unknown.
+export function getSegmentStart(segment: TranscriptSegment): number {
+  return typeof segment.start === 'number' && Number.isFinite(segment.start)
+    ? segment.start
+    : parseTimestamp(segment.timestamp);
+}
+
+// Segments without an end finish when the next one starts, capped by a reading-time estimate
+const WORDS_PER_SECOND = 2.5;
+const MIN_SEGMENT_SECONDS = 1.5;
+
+/**
+ * Fill in numeric `start` for every segment from its timestamp. Unparseable starts
+ * inherit the previous segment's start so the result is always usable for playback.
+ */
+export function withSegmentStarts(segments: TranscriptSegment[]): TranscriptSegment[] {
+  let previousStart = 0;
+  return segments.map(seg => {
+    const start = getSegmentStart(seg);
+    previousStart = Number.isNaN(start) ? previousStart : start;
+    if (seg.start === previousStart) return seg;
+    return { ...seg, start: previousStart, timestamp: formatTimestamp(previousStart) };
+  });
+}
+
+// Like withSegmentStarts, but also derives a missing `end` (for cues and playback highlighting)
+export function withSegmentTimes(segments: TranscriptSegment[]): TranscriptSegment[] {
+  const starts = withSegmentStarts(segments).map(seg => seg.start!);
+
+  return segments.map((seg, i) => {
+    const start = starts[i];
+    let end = seg.end;
+    if (typeof end !== 'number' || !(end > start)) {
+      const words = seg.text.split(/\s+/).filter(Boolean).length;
+      const estimatedEnd = start + Math.max(MIN_SEGMENT_SECONDS, words / WORDS_PER_SECOND);
+      const nextStart = starts[i + 1];
+      end = nextStart !== undefined && nextStart > start ? Math.min(nextStart, estimatedEnd) : estimatedEnd;
+    }
+    if (seg.start === start && seg.end === end) return seg;
+    return { ...seg, start, end, timestamp: formatTimestamp(start) };
+  });
+}
+
+// Move segments later by `seconds`, e.g. to undo silence trimmed from the start of the audio
+export function shiftSegments(segments: TranscriptSegment[], seconds: number): TranscriptSegment[] {
+  if (!seconds) return segments;
+  return withSegmentStarts(segments).map(seg => {
+    const start = seg.start! + seconds;
+    return {
+      ...seg,
+      start,
+      timestamp: formatTimestamp(start),
+      ...(typeof seg.end === 'number' && { end: seg.end + seconds }),
+    };
+  });
+}
@@ -0,0 +1,119 @@
+import { TranscriptSegment } from "../types";
+import { parseTimestamp, formatTimestamp, getSegmentStart } from "./timeUtils";
+
+/**
+ * Edits the user can apply to a transcript. Each one is a pure transformation so
+ * the history can store plain snapshots and exports always see the edited state.
+ */
+export type TranscriptEdit =
+  | { type: 'updateText'; index: number; text: string }
+  // Several text changes recorded as one step (e.g. applying correction rules)
+  | { type: 'updateTexts'; texts: { index: number; text: string }[] }
+  | { type: 'updateTimestamp'; index: number; timestamp: string }
+  | { type: 'renameSpeaker'; from: string; to: string }
+  | { type: 'reassignSpeaker'; index: number; speaker: string }
+  | { type: 'mergeWithNext'; index: number }
+  | { type: 'split'; index: number; position: number }
+  | { type: 'delete'; index: number };
+
+// A speaker set by hand no longer carries the model's identification confidence
+const withoutConfidence = ({ speakerConfidence: _confidence, ...seg }: TranscriptSegment): TranscriptSegment => seg;
+
+const replaceAt = (segments: TranscriptSegment[], index: number, ...items: TranscriptSegment[]) => [
+  ...segments.slice(0, index),
+  ...items,
+  ...segments.slice(index + 1),
+];
+
+const joinText = (a: string, b: string) => `${a.trimEnd()} ${b.trimStart()}`.trim();
+
+export function applyEdit(segments: TranscriptSegment[], edit: TranscriptEdit): TranscriptSegment[] {
+  switch (edit.type) {
+    case 'updateText': {
+      const seg = segments[edit.index];
+      if (!seg || seg.text === edit.text) return segments;
+      return replaceAt(segments, edit.index, { ...seg, text: edit.text });
+    }
+
+    case 'updateTexts': {
+      const changed = edit.texts.filter(({ index, text }) => segments[index] && segments[index].text !== text);
+      if (!changed.length) return segments;
+      const updated = [...segments];
+      changed.forEach(({ index, text }) => {
+        updated[index] = { ...updated[index], text };
+      });
+      return updated;
+    }
+
+    case 'updateTimestamp': {
+      const seg = segments[edit.index];
+      const seconds = parseTimestamp(edit.timestamp);
+      if (!seg || Number.isNaN(seconds)) return segments;
+      const timestamp = formatTimestamp(seconds);
+      if (timestamp === seg.timestamp) return segments;
+      // Drop an end that would now precede the start; it is re-derived on demand
+      const end = seg.end !== undefined && seg.end > seconds ? seg.end : undefined;
+      return replaceAt(segments, edit.index, { ...seg, timestamp, start: seconds, end });
+    }
+
+    case 'renameSpeaker': {
+      const to = edit.to.trim();
+      if (!to || to === edit.from) return segments;
+      return segments.map(seg => (seg.speaker === edit.from ? { ...withoutConfidence(seg), speaker: to } : seg));
+    }
+
+    case 'reassignSpeaker': {
+      const seg = segments[edit.index];
+      const speaker = edit.speaker.trim();
+      if (!seg || !speaker || seg.speaker === speaker) return segments;
+      // Carry over the gender already known for that speaker, if any
+      const gender = segments.find(s => s.speaker === speaker)?.gender ?? 'Desconocido';
+      return replaceAt(segments, edit.index, { ...withoutConfidence(seg), speaker, gender });
+    }
+
+    case 'mergeWithNext': {
+      const seg = segments[edit.index];
+      const next = segments[edit.index + 1];
+      if (!seg || !next) return segments;
+      // The merged segment spans both, so times inside the second still fall within it
+      const following = segments[edit.index + 2];
+      const end = next.end ?? (following && !Number.isNaN(getSegmentStart(following)) ? getSegmentStart(following) : undefined);
+      // A part without a translation is usually already in the target language, so its text stands in
+      const translation = seg.translation || next.translation
+        ? joinText(seg.translation ?? seg.text, next.translation ?? next.text)
+        : undefined;
+      return [
+        ...segments.slice(0, edit.index),
+        { ...seg, text: joinText(seg.text, next.text), end, translation },
+        ...segments.slice(edit.index + 2),
+      ];
+    }
+
+    case 'split': {
+      const seg = segments[edit.index];
+      if (!seg) return segments;
+      const head = seg.text.slice(0, edit.position).trim();
+      const tail = seg.text.slice(edit.position).trim();
+      if (!head || !tail) return segments;
+
+      // Without word timings, place the second half proportionally to the text length
+      const start = getSegmentStart(seg);
+      const next = segments[edit.index + 1];
+      const end = seg.end ?? (next ? getSegmentStart(next) : NaN);
+      if (Number.isNaN(start) || !(end > start)) {
+        return replaceAt(segments, edit.index, { ...seg, text: head }, { ...seg, text: tail });
+      }
+      const tailStart = start + (end - start) * (edit.position / seg.text.length);
+
+      return replaceAt(
+        segments,
+        edit.index,
+        { ...seg, text: head, start, end: tailStart },
+        { ...seg, text: tail, start: tailStart, end: seg.end, timestamp: formatTimestamp(tailStart) }
+      );
+    }
+
+    case 'delete':
+      return segments.filter((_, i) => i !== edit.index);
+  }
+}
@@ -0,0 +1,30 @@
+import { TranscriptSegment } from "../types";
+import { withSegmentTimes } from "./timeUtils";
+
+/**
+ * Give each live segment the speaker and gender of the diarized segment it
+ * overlaps most in time. The live text and timestamps are kept, so corrections
+ * made during the session survive; segments with no overlap keep their speaker.
+ */
+export function reconcileSpeakers(live: TranscriptSegment[], diarized: TranscriptSegment[]): TranscriptSegment[] {
+  const timedLive = withSegmentTimes(live);
+  const timedDiarized = withSegmentTimes(diarized);
+
+  return live.map((seg, i) => {
+    if (seg.gap) return seg;
+    const { start = NaN, end = NaN } = timedLive[i];
+    if (isNaN(start) || isNaN(end)) return seg;
+
+    let best: TranscriptSegment | undefined;
+    let bestOverlap = 0;
+    timedDiarized.forEach(candidate => {
+      if (candidate.start === undefined || candidate.end === undefined) return;
+      const overlap = Math.min(end, candidate.end) - Math.max(start, candidate.start);
+      if (overlap > bestOverlap) {
+        best = candidate;
+        bestOverlap = overlap;
+      }
+    });
+    return best ? { ...seg, speaker: best.speaker, gender: best.gender } : seg;
+  });
+}
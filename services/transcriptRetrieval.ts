@@ -0,0 +1,77 @@
+import { TranscriptSegment } from "../types";
+import { normalizeWords } from "./textUtils";
+
+// Transcripts under this size are sent whole; longer ones are narrowed to relevant passages
+export const CONTEXT_CHAR_BUDGET = 60000;
+
+// Passages are overlapping runs of consecutive segments, so answers keep local context
+const PASSAGE_SIZE = 12;
+const PASSAGE_STEP = 6;
+
+const STOPWORDS = new Set([
+  'que', 'de', 'la', 'el', 'en', 'y', 'a', 'los', 'las', 'del', 'se', 'un', 'una', 'por', 'con', 'para',
+  'es', 'lo', 'al', 'no', 'si', 'su', 'sus', 'como', 'mas', 'pero', 'ya', 'o', 'fue', 'ha', 'me', 'le',
+  'nos', 'sobre', 'este', 'esta', 'eso', 'esto', 'hay', 'muy', 'cual', 'cuando', 'donde', 'quien',
+  'dijo', 'dije', 'hemos', 'han', 'son', 'era', 'the', 'and', 'of', 'to', 'what', 'did', 'we',
+]);
+
+const keywords = (text: string) => normalizeWords(text).filter(w => w.length > 2 && !STOPWORDS.has(w));
+
+// Longer terms also match their inflections ("presupuesto" / "presupuestos")
+const matchesTerm = (word: string, term: string) =>
+  word === term || (term.length > 4 && word.startsWith(term.slice(0, -1)));
+
+/**
+ * Pick the segments most relevant to `query` within a character budget, scoring
+ * passages with TF-IDF over the query keywords. Returns segment indices in
+ * transcript order; the whole transcript when it already fits.
+ */
+export function selectRelevantSegments(
+  segments: TranscriptSegment[],
+  query: string,
+  budget: number = CONTEXT_CHAR_BUDGET
+): number[] {
+  const lengths = segments.map(seg => seg.speaker.length + seg.text.length + 16);
+  const total = lengths.reduce((sum, n) => sum + n, 0);
+  if (total <= budget) return segments.map((_, i) => i);
+
+  const passages: number[][] = [];
+  for (let start = 0; start < segments.length; start += PASSAGE_STEP) {
+    passages.push(Array.from({ length: Math.min(PASSAGE_SIZE, segments.length - start) }, (_, k) => start + k));
+    if (start + PASSAGE_SIZE >= segments.length) break;
+  }
+
+  const terms = [...new Set(keywords(query))];
+  const passageWords = passages.map(p => keywords(p.map(i => `${segments[i].speaker} ${segments[i].text}`).join(' ')));
+  const scores = passageWords.map(words => {
+    return terms.reduce((score, term) => {
+      const tf = words.filter(w => matchesTerm(w, term)).length;
+      if (!tf) return score;
+      const df = passageWords.filter(pw => pw.some(w => matchesTerm(w, term))).length;
+      return score + (1 + Math.log(tf)) * Math.log(1 + passages.length / df);
+    }, 0);
+  });
+
+  const selected = new Set<number>();
+  let used = 0;
+  passages
+    .map((passage, i) => ({ passage, score: scores[i] }))
+    .filter(p => p.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ passage }) => {
+      const extra = passage.filter(i => !selected.has(i)).reduce((sum, i) => sum + lengths[i], 0);
+      if (used + extra > budget) return;
+      passage.forEach(i => selected.add(i));
+      used += extra;
+    });
+
+  // Nothing matched: fall back to the opening of the meeting
+  if (!selected.size) {
+    for (let i = 0; i < segments.length && used + lengths[i] <= budget; i++) {
+      selected.add(i);
+      used += lengths[i];
+    }
+  }
+
+  return [...selected].sort((a, b) => a - b);
+}
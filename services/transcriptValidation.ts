@@ -0,0 +1,131 @@
+import { TranscriptSegment } from "../types";
+import { TranscriptionError } from "./transcriptionErrors";
+import { formatTimestamp, parseTimestamp } from "./timeUtils";
+
+const FALLBACK_SPEAKER = 'Hablante 1';
+
+/**
+ * Collect the complete top-level objects of a JSON array that was cut off
+ * mid-way (e.g. the model hit its output limit). Objects that were still open
+ * when the text ends are discarded.
+ */
+export function recoverTruncatedArray(text: string): unknown[] {
+  const items: unknown[] = [];
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let objectStart = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{' || char === '[') {
+      // Depth 1 is inside the outer array, so objects open at depth 1 are items
+      if (char === '{' && depth === 1) objectStart = i;
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      if (char === '}' && depth === 1 && objectStart >= 0) {
+        try {
+          items.push(JSON.parse(text.slice(objectStart, i + 1)));
+        } catch {
+          // Skip an item that is malformed on its own
+        }
+        objectStart = -1;
+      }
+    }
+  }
+  return items;
+}
+
+/**
+ * Parse the model's JSON answer. Truncated arrays are salvaged item by item;
+ * `truncated` tells the caller the transcript may be missing its end.
+ */
+export function parseModelArray(text: string): { items: unknown[]; truncated: boolean } {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+  if (!trimmed) return { items: [], truncated: false };
+  try {
+    const data = JSON.parse(trimmed);
+    if (Array.isArray(data)) return { items: data, truncated: false };
+    if (Array.isArray(data?.segments)) return { items: data.segments, truncated: false };
+  } catch {
+    const items = recoverTruncatedArray(trimmed);
+    if (items.length) return { items, truncated: true };
+  }
+  throw new TranscriptionError('malformedOutput');
+}
+
+const normalizeGender = (value: unknown): TranscriptSegment['gender'] => {
+  const gender = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (/^(masculino|hombre|male|man|m)$/.test(gender)) return 'Masculino';
+  if (/^(femenino|mujer|female|woman|f)$/.test(gender)) return 'Femenino';
+  return 'Desconocido';
+};
+
+// Accepts "MM:SS", "H:MM:SS", "MM:SS.s", bracketed forms like "[01:02]" and plain seconds
+const toSeconds = (value: unknown): number => {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : NaN;
+  if (typeof value !== 'string') return NaN;
+  const cleaned = value.replace(/[^\d:.]/g, '');
+  if (/^\d+(\.\d+)?$/.test(cleaned)) return parseFloat(cleaned);
+  return parseTimestamp(cleaned);
+};
+
+// 0-1, also accepting percentages; undefined when missing or not a number
+const toConfidence = (value: unknown): number | undefined => {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number) || number < 0) return undefined;
+  return Math.min(1, number > 1 ? number / 100 : number);
+};
+
+const optionalString = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+/**
+ * Turn raw model items into well-formed segments: items without text are dropped,
+ * speakers and genders fall back to safe values, and timestamps are normalized to
+ * numeric starts that never go backwards or past `maxSeconds`.
+ */
+export function normalizeSegments(items: unknown[], maxSeconds = Infinity): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  let previousStart = 0;
+  let previousSpeaker = FALLBACK_SPEAKER;
+
+  items.forEach(item => {
+    if (!item || typeof item !== 'object') return;
+    const raw = item as Record<string, unknown>;
+    const text = optionalString(raw.text);
+    if (!text) return;
+
+    const speaker = optionalString(raw.speaker) ?? previousSpeaker;
+    let start = toSeconds(raw.timestamp);
+    if (Number.isNaN(start) || start > maxSeconds) start = previousStart;
+    start = Math.max(start, previousStart);
+
+    const segment: TranscriptSegment = {
+      speaker,
+      gender: normalizeGender(raw.gender),
+      timestamp: formatTimestamp(start),
+      start,
+      text,
+    };
+    const language = optionalString(raw.language);
+    if (language) segment.language = language.toLowerCase();
+    const translation = optionalString(raw.translation);
+    if (translation) segment.translation = translation;
+    const confidence = toConfidence(raw.confidence);
+    if (confidence !== undefined) segment.speakerConfidence = confidence;
+
+    segments.push(segment);
+    previousStart = start;
+    previousSpeaker = speaker;
+  });
+  return segments;
+}
@@ -0,0 +1,121 @@
+export type TranscriptionErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'tooLarge'
+  | 'unsupportedFormat'
+  | 'malformedOutput'
+  | 'unavailable'
+  | 'network'
+  | 'cancelled'
+  | 'unknown';
+
+export const TRANSCRIPTION_ERROR_MESSAGES: Record<TranscriptionErrorKind, string> = {
+  auth: 'La API Key falta o no es válida. Revisa la configuración del servidor.',
+  quota: 'Se ha superado la cuota o el límite de peticiones del servicio. Espera unos minutos e inténtalo de nuevo.',
+  tooLarge: 'El archivo es demasiado grande para el servicio. Prueba con un audio más corto o comprimido.',
+  unsupportedFormat: 'El formato del archivo no es compatible. Prueba con MP3, WAV, M4A u OGG.',
+  malformedOutput: 'El modelo devolvió una respuesta incompleta o no válida. Inténtalo de nuevo.',
+  unavailable: 'El servicio de transcripción no está disponible en este momento. Inténtalo más tarde.',
+  network: 'No se pudo conectar con el servicio de transcripción. Revisa tu conexión.',
+  cancelled: 'Transcripción cancelada.',
+  unknown: 'Ocurrió un error inesperado al procesar el archivo.',
+};
+
+// Worth retrying: the same request may well succeed a moment later
+const TRANSIENT_KINDS: TranscriptionErrorKind[] = ['quota', 'malformedOutput', 'unavailable', 'network'];
+
+/**
+ * A transcription failure sorted into a category the UI can explain. `cause`
+ * keeps the original error for logging.
+ */
+export class TranscriptionError extends Error {
+  constructor(public kind: TranscriptionErrorKind, message?: string, public cause?: unknown) {
+    super(message ?? TRANSCRIPTION_ERROR_MESSAGES[kind]);
+    this.name = 'TranscriptionError';
+  }
+
+  get isTransient() {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+const kindFromStatus = (status: number, message: string): TranscriptionErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 413) return 'tooLarge';
+  if (status === 415) return 'unsupportedFormat';
+  if (status >= 500) return 'unavailable';
+  if (status === 400) {
+    if (/api key|api_key|permission/i.test(message)) return 'auth';
+    if (/too large|exceeds|payload|maximum|token count|too long/i.test(message)) return 'tooLarge';
+    if (/mime|unsupported|format|invalid audio|could not (decode|process)/i.test(message)) return 'unsupportedFormat';
+  }
+  return 'unknown';
+};
+
+/**
+ * Sort any error thrown while transcribing (SDK `ApiError`s carry an HTTP
+ * `status`; fetch failures surface as `TypeError`) into a TranscriptionError.
+ */
+export function classifyError(error: unknown): TranscriptionError {
+  if (error instanceof TranscriptionError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = (error as { status?: unknown })?.status;
+
+  let kind: TranscriptionErrorKind = 'unknown';
+  if ((error as { name?: unknown })?.name === 'AbortError') kind = 'cancelled';
+  else if (typeof status === 'number') kind = kindFromStatus(status, message);
+  else if (error instanceof TypeError && /fetch|network/i.test(message)) kind = 'network';
+  else if (error instanceof SyntaxError) kind = 'malformedOutput';
+  else if (/RESOURCE_EXHAUSTED|quota/i.test(message)) kind = 'quota';
+
+  return new TranscriptionError(kind, undefined, error);
+}
+
+// For backends reached with plain fetch: classify a non-OK HTTP response
+export const httpError = (status: number, body: string) =>
+  new TranscriptionError(kindFromStatus(status, body), undefined, new Error(`HTTP ${status}: ${body}`));
+
+export const transcriptionErrorMessage = (error: unknown) => classifyError(error).message;
+
+export interface RetryOptions {
+  attempts?: number;
+  baseDelayMs?: number;
+  onRetry?: (attempt: number, error: TranscriptionError) => void;
+  // Stops retrying once aborted, including during the wait between attempts
+  signal?: AbortSignal;
+}
+
+// Wait before the next attempt, giving up as soon as `signal` aborts
+const backoff = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const cancel = () => {
+    clearTimeout(timer);
+    reject(new TranscriptionError('cancelled', undefined, signal?.reason));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', cancel);
+    resolve();
+  }, ms);
+  if (signal?.aborted) cancel();
+  else signal?.addEventListener('abort', cancel, { once: true });
+});
+
+/**
+ * Run `task`, retrying transient failures with exponential backoff. Errors are
+ * rethrown classified, so callers always see a TranscriptionError.
+ */
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  { attempts = 3, baseDelayMs = 1000, onRetry, signal }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      const classified = signal?.aborted ? new TranscriptionError('cancelled', undefined, error) : classifyError(error);
+      if (!classified.isTransient || attempt >= attempts) throw classified;
+      onRetry?.(attempt, classified);
+      await backoff(baseDelayMs * 2 ** (attempt - 1), signal);
+    }
+  }
+}
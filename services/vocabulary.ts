@@ -0,0 +1,94 @@
+import { CorrectionRule, GlossaryTerm, TranscriptSegment } from "../types";
+
+export interface CorrectionChange {
+  // Index of the segment in the transcript that was corrected
+  index: number;
+  before: string;
+  after: string;
+}
+
+export interface CorrectionResult {
+  segments: TranscriptSegment[];
+  changes: CorrectionChange[];
+}
+
+interface CompiledRule {
+  pattern: RegExp;
+  replace: string;
+  // Word rules replace literally; regex rules may use $1-style references
+  literal: boolean;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Letters and digits in any script count as part of a word
+export const wordPattern = (text: string, caseSensitive: boolean) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(text)}(?![\\p{L}\\p{N}])`, caseSensitive ? 'gu' : 'giu');
+
+/**
+ * Turn a rule into a RegExp. Returns the error message for regex rules that do
+ * not compile, so the editor can point at them.
+ */
+export function compileRule(rule: CorrectionRule): RegExp | string {
+  if (rule.mode === 'word') return wordPattern(rule.find, rule.caseSensitive);
+  try {
+    return new RegExp(rule.find, rule.caseSensitive ? 'g' : 'gi');
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+// Glossary mis-hearings become whole-word rules that run before the user's own rules
+const compileRules = (glossary: GlossaryTerm[], rules: CorrectionRule[]): CompiledRule[] => [
+  ...glossary.flatMap(({ term, soundsLike }) =>
+    soundsLike
+      .filter(heard => heard.trim() && heard.trim() !== term)
+      .map(heard => ({ pattern: wordPattern(heard.trim(), false), replace: term, literal: true }))
+  ),
+  ...rules.flatMap(rule => {
+    if (!rule.enabled || !rule.find) return [];
+    const pattern = compileRule(rule);
+    return typeof pattern === 'string' ? [] : [{ pattern, replace: rule.replace, literal: rule.mode === 'word' }];
+  }),
+];
+
+/**
+ * Apply the glossary and the enabled rules, in order, to the text of every
+ * segment. Gap markers are left alone. `changes` lists the segments that changed.
+ */
+export function applyCorrections(
+  segments: TranscriptSegment[],
+  glossary: GlossaryTerm[],
+  rules: CorrectionRule[]
+): CorrectionResult {
+  const compiled = compileRules(glossary, rules);
+  if (!compiled.length) return { segments, changes: [] };
+
+  const changes: CorrectionChange[] = [];
+  const corrected = segments.map((seg, index) => {
+    if (seg.gap) return seg;
+    const text = compiled.reduce(
+      (current, { pattern, replace, literal }) =>
+        literal ? current.replace(pattern, () => replace) : current.replace(pattern, replace),
+      seg.text
+    );
+    if (text === seg.text) return seg;
+    changes.push({ index, before: seg.text, after: text });
+    return { ...seg, text };
+  });
+  return { segments: corrected, changes };
+}
+
+/**
+ * Prompt section listing the glossary, shared by the file and live prompts.
+ * Empty when there are no terms.
+ */
+export function glossaryInstructions(glossary: GlossaryTerm[] = []): string {
+  const terms = glossary.filter(t => t.term.trim());
+  if (!terms.length) return '';
+  const lines = terms.map(({ term, soundsLike }) => {
+    const heard = soundsLike.map(s => s.trim()).filter(Boolean);
+    return `- ${term.trim()}${heard.length ? ` (puede sonar como: ${heard.join(', ')})` : ''}`;
+  });
+  return `Vocabulario propio de la organización. Cuando se mencionen, escribe estos términos exactamente así:\n${lines.join('\n')}`;
+}
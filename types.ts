@@ -1,8 +1,20 @@
 export interface TranscriptSegment {
   speaker: string;
   gender: 'Masculino' | 'Femenino' | 'Desconocido';
+  // Display form of `start` ("MM:SS" or "H:MM:SS"). Legacy segments only have this.
   timestamp: string;
   text: string;
+  // Seconds from the start of the recording
+  start?: number;
+  end?: number;
+  // Marks a stretch of live audio that could not be transcribed (e.g. during a reconnect)
+  gap?: boolean;
+  // Spoken language (ISO 639-1), as detected or configured
+  language?: string;
+  // `text` in the translation target language, when one was requested
+  translation?: string;
+  // How sure the model was that `speaker` is the enrolled person it names, 0-1
+  speakerConfidence?: number;
 }
 
 export enum AppMode {
@@ -15,3 +27,162 @@ export interface ProcessingState {
   progress?: string;
   error?: string;
 }
+
+export interface LiveSessionCallbacks {
+  onOpen: () => void;
+  onTranscription: (text: string, isFinal: boolean) => void;
+  onClose: () => void;
+  onError: (err: any) => void;
+  // The server announced it will end the session soon (e.g. session time limit)
+  onGoAway?: () => void;
+}
+
+// A domain term (product, client, acronym) and the ways it tends to be heard or pronounced
+export interface GlossaryTerm {
+  id: string;
+  term: string;
+  soundsLike: string[];
+}
+
+// Find/replace rule applied to every transcript segment after transcription
+export interface CorrectionRule {
+  id: string;
+  find: string;
+  replace: string;
+  // 'word' matches `find` literally as a whole word; 'regex' treats it as a regular expression
+  mode: 'word' | 'regex';
+  caseSensitive: boolean;
+  enabled: boolean;
+}
+
+// A person or organization mentioned in a transcript, written as it appears there
+export interface NamedEntity {
+  text: string;
+  category: 'PERSONA' | 'ORGANIZACION';
+}
+
+// Reference clip of an enrolled person, sent along with the audio so voices can be named
+export interface VoiceSample {
+  name: string;
+  gender: TranscriptSegment['gender'];
+  base64: string;
+  mimeType: string;
+}
+
+// Language settings for a transcription. `language` is an ISO 639-1 code or 'auto'.
+export interface TranscriptionOptions {
+  language: string;
+  translateTo?: string;
+  // Spellings the model should use for domain vocabulary
+  glossary?: GlossaryTerm[];
+  // People who may be speaking; only file transcription uses it
+  roster?: VoiceSample[];
+}
+
+// Per-call controls for a file transcription
+export interface FileTranscriptionOptions extends TranscriptionOptions {
+  // Aborts the request; the promise then rejects
+  signal?: AbortSignal;
+  // Receives the transcript so far, timed from the start of the file, as it streams in
+  onPartial?: (segments: TranscriptSegment[]) => void;
+}
+
+// A connected live session. Audio is sent as base64 PCM Int16 at 16kHz.
+export interface LiveTranscriptionSession {
+  sendAudio: (base64Pcm: string) => void;
+  close: () => void;
+}
+
+/**
+ * Backend able to transcribe uploaded files and live microphone audio.
+ * The app talks to whichever provider was selected at startup.
+ */
+export interface TranscriptionProvider {
+  id: string;
+  label: string;
+  transcribeFile: (
+    base64Data: string,
+    mimeType: string,
+    onProgress?: (progress: string) => void,
+    options?: FileTranscriptionOptions
+  ) => Promise<TranscriptSegment[]>;
+  connectLive: (callbacks: LiveSessionCallbacks, options?: TranscriptionOptions) => Promise<LiveTranscriptionSession>;
+  // Optional translation of existing segments (e.g. live or imported ones); returns them with `translation` set
+  translateSegments?: (segments: TranscriptSegment[], targetLanguage: string) => Promise<TranscriptSegment[]>;
+  // Optional analysis of a finished transcript; hidden in the UI when unsupported
+  generateMinutes?: (segments: TranscriptSegment[]) => Promise<MeetingMinutes>;
+  // Optional question answering over a transcript, citing the segments used
+  askQuestion?: (segments: TranscriptSegment[], question: string, history: ChatMessage[]) => Promise<ChatMessage>;
+  // Optional detection of names and organizations, for redaction
+  detectEntities?: (segments: TranscriptSegment[]) => Promise<NamedEntity[]>;
+  // Optional assignment of segment ranges to agenda items
+  mapAgenda?: (segments: TranscriptSegment[], agenda: AgendaItem[]) => Promise<AgendaCoverage>;
+}
+
+// Indices into the transcript the item was derived from
+export interface MinutesItem {
+  description: string;
+  segmentIndices: number[];
+  // Start times of the same segments, which still find them after edits shift the indices
+  segmentStarts?: number[];
+}
+
+export interface MinutesTopic extends MinutesItem {
+  title: string;
+}
+
+export interface ActionItem extends MinutesItem {
+  owner?: string;
+  dueDate?: string;
+}
+
+export interface MeetingMinutes {
+  summary: string;
+  topics: MinutesTopic[];
+  decisions: MinutesItem[];
+  actionItems: ActionItem[];
+  generatedAt: string;
+}
+
+// A point on the agenda a meeting was planned around
+export interface AgendaItem {
+  id: string;
+  title: string;
+}
+
+// What is known about a meeting before it starts
+export interface MeetingPlan {
+  title: string;
+  attendees: string[];
+  agenda: AgendaItem[];
+}
+
+// Consecutive segments (inclusive range) that discuss one agenda item, or an
+// off-agenda topic when `itemId` is missing
+export interface AgendaSection {
+  itemId?: string;
+  title: string;
+  firstIndex: number;
+  lastIndex: number;
+}
+
+export interface AgendaCoverage {
+  sections: AgendaSection[];
+  // Agenda items nobody talked about
+  uncoveredItemIds: string[];
+  // Length of the transcript the sections were computed for, and the start times at
+  // their boundaries; edits that change either make them stale
+  segmentCount: number;
+  fingerprint?: string;
+  generatedAt: string;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  text: string;
+  // Indices of the transcript segments an answer is based on
+  citations?: number[];
+  // Start times of the same segments, which still find them after edits shift the indices
+  citationStarts?: number[];
+  createdAt: string;
+}
@@ -8,11 +8,18 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Gemini calls go to the proxy server (npm run server), which holds the API key
+        proxy: {
+          '/api': `http://localhost:${env.PROXY_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_PROXY_URL': JSON.stringify(env.GEMINI_PROXY_URL),
+        'process.env.TRANSCRIPTION_PROVIDER': JSON.stringify(env.TRANSCRIPTION_PROVIDER),
+        'process.env.LOCAL_TRANSCRIPTION_URL': JSON.stringify(env.LOCAL_TRANSCRIPTION_URL),
+        'process.env.LOCAL_TRANSCRIPTION_PATH': JSON.stringify(env.LOCAL_TRANSCRIPTION_PATH),
+        'process.env.LOCAL_TRANSCRIPTION_MODEL': JSON.stringify(env.LOCAL_TRANSCRIPTION_MODEL)
       },
       resolve: {
         alias: {